@@ -6,6 +6,7 @@ import { AuthProvider } from "@/context/AuthContext";
 import Home from "@/pages/Home";
 import Favorites from "@/pages/Favorites";
 import EventDetail from "@/pages/EventDetail";
+import AdminDistricts from "@/pages/AdminDistricts";
 import Error from "@/pages/Error";
 import NotFound from "@/pages/not-found";
 import Header from "@/components/Header";
@@ -18,6 +19,7 @@ function Router() {
       <Route path="/" component={Home} />
       <Route path="/favorites" component={Favorites} />
       <Route path="/event/:id" component={EventDetail} />
+      <Route path="/admin/districts" component={AdminDistricts} />
       <Route path="/error/:type" component={Error} />
       <Route component={NotFound} />
     </Switch>
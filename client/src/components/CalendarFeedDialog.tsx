@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { useLanguage } from "@/lib/i18n";
+import { useAuth } from "@/context/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { CalendarPlus, Copy, RefreshCw } from "lucide-react";
+
+interface CalendarFeedDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Manage the secret link calendar apps subscribe to for the user's favorites
+export default function CalendarFeedDialog({ isOpen, onClose }: CalendarFeedDialogProps) {
+  const { t, language } = useLanguage();
+  const { user, rotateFeedToken, revokeFeedToken } = useAuth();
+  const { toast } = useToast();
+  const [isPending, setIsPending] = useState(false);
+
+  const feedUrl = user?.feedToken
+    ? `${window.location.origin}/api/feeds/${user.feedToken}/favorites.ics?lang=${language}`
+    : null;
+
+  const run = async (action: () => Promise<void>) => {
+    setIsPending(true);
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        title: t("error"),
+        description: error instanceof Error ? error.message : "Failed to update feed link",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const copyFeedUrl = async () => {
+    if (feedUrl) {
+      await navigator.clipboard.writeText(feedUrl);
+      toast({ title: t("linkCopied") });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t("calendarFeed")}</DialogTitle>
+          <DialogDescription>{t("calendarFeedDescription")}</DialogDescription>
+        </DialogHeader>
+
+        {feedUrl ? (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Input value={feedUrl} readOnly onFocus={(e) => e.target.select()} aria-label={t("calendarFeed")} />
+              <Button variant="outline" onClick={copyFeedUrl}>
+                <Copy className="mr-2 h-4 w-4" />
+                {t("copyLink")}
+              </Button>
+            </div>
+            <Button asChild className="w-full">
+              {/* webcal: opens the subscription dialog of the default calendar app */}
+              <a href={feedUrl.replace(/^https?:/, "webcal:")}>
+                <CalendarPlus className="mr-2 h-4 w-4" />
+                {t("subscribeInCalendar")}
+              </a>
+            </Button>
+            <p className="text-sm text-gray-500">{t("rotateFeedLinkHint")}</p>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => run(rotateFeedToken)} disabled={isPending}>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                {t("rotateFeedLink")}
+              </Button>
+              <Button variant="destructive" onClick={() => run(revokeFeedToken)} disabled={isPending}>
+                {t("revokeFeedLink")}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">{t("calendarFeedOff")}</p>
+            <Button onClick={() => run(rotateFeedToken)} disabled={isPending}>
+              {t("createFeedLink")}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
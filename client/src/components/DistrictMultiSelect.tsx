@@ -0,0 +1,111 @@
+import { useQuery } from "@tanstack/react-query";
+import { District } from "@shared/schema";
+import { useLanguage } from "@/lib/i18n";
+import { flattenDistricts, includedByAncestor, toggleDistrict } from "@/lib/districts";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ChevronDown } from "lucide-react";
+
+interface DistrictMultiSelectProps {
+  id?: string;
+  value: string[]; // chosen district values; empty for all districts
+  onChange: (value: string[]) => void;
+}
+
+// An area and the wards or cities that have it as parentArea
+interface AreaGroup {
+  area: District;
+  children: District[];
+}
+
+// Checkbox list of districts, grouped by region and then by area. Any mix of
+// regions, areas and wards can be chosen.
+export default function DistrictMultiSelect({ id, value, onChange }: DistrictMultiSelectProps) {
+  const { t, language } = useLanguage();
+
+  const { data: districts = [] } = useQuery<District[]>({
+    queryKey: ["/api/districts"],
+  });
+
+  const districtName = (district: District) => language === "ja" ? district.nameJa : district.nameEn;
+
+  // Regions, each with its areas and their wards and cities
+  const regions: { region: District; areas: AreaGroup[] }[] = [];
+  flattenDistricts(districts).forEach(({ district, depth }) => {
+    if (depth === 0) {
+      regions.push({ region: district, areas: [] });
+    } else if (depth === 1) {
+      regions[regions.length - 1].areas.push({ area: district, children: [] });
+    } else {
+      const { areas } = regions[regions.length - 1];
+      areas[areas.length - 1]?.children.push(district);
+    }
+  });
+
+  const summary = value.length === 0
+    ? t("allDistricts")
+    : value
+        .map((item) => districts.find((district) => district.value === item))
+        .map((district, index) => district ? districtName(district) : value[index])
+        .join(", ");
+
+  const renderCheckbox = (district: District, label: string, emphasis = false) => {
+    // 上位の地区が選ばれていれば、その中の地区も含まれる
+    const included = includedByAncestor(districts, district.value, value);
+    return (
+      <div key={district.id} className="flex items-center space-x-2">
+        <Checkbox
+          id={`district-${district.value}`}
+          checked={included || value.includes(district.value)}
+          disabled={included}
+          onCheckedChange={(checked) => onChange(toggleDistrict(districts, value, district.value, checked === true))}
+        />
+        <Label
+          htmlFor={`district-${district.value}`}
+          className={cn("text-sm text-gray-700", emphasis ? "font-medium" : "font-normal")}
+        >
+          {label}
+        </Label>
+      </div>
+    );
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button id={id} type="button" variant="outline" className="mt-1 w-full justify-between font-normal">
+          <span className="truncate">{summary}</span>
+          <ChevronDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-0">
+        <div className="max-h-96 overflow-y-auto p-4 space-y-4">
+          {regions.map(({ region, areas }) => (
+            <fieldset key={region.id} className="space-y-2">
+              <legend className="mb-2 text-sm font-semibold text-gray-800">{districtName(region)}</legend>
+              {renderCheckbox(region, t("wholeRegion").replace("{name}", districtName(region)))}
+              {areas.map(({ area, children }) => (
+                <div key={area.id} className="space-y-1 pl-4">
+                  {renderCheckbox(area, districtName(area), true)}
+                  <div className="flex flex-wrap gap-x-3 gap-y-1 pl-6">
+                    {children.map((child) => renderCheckbox(child, districtName(child)))}
+                  </div>
+                </div>
+              ))}
+            </fieldset>
+          ))}
+        </div>
+        {value.length > 0 && (
+          <div className="flex justify-end border-t p-2">
+            <Button type="button" variant="ghost" size="sm" onClick={() => onChange([])}>
+              {t("clearDistricts")}
+            </Button>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
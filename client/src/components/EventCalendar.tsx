@@ -0,0 +1,203 @@
+import { useState, useEffect, useMemo } from "react";
+import { Link } from "wouter";
+import { Row, type DayContentProps, type RowProps } from "react-day-picker";
+import { addDays, addWeeks, format, isSameDay, parseISO, startOfMonth, startOfWeek } from "date-fns";
+import { ja, enUS } from "date-fns/locale";
+import { Event, SearchParams } from "@shared/schema";
+import { useLanguage } from "@/lib/i18n";
+import { cn } from "@/lib/utils";
+import { Calendar } from "@/components/ui/calendar";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+export type CalendarView = "month" | "week";
+
+interface EventCalendarProps {
+  events: Event[];
+  searchParams: SearchParams; // navigation stays within the searched range
+  view: CalendarView;
+}
+
+// An event on one day, and whether the bar continues from the day before or to the day after
+interface DayEntry {
+  event: Event;
+  continuesBefore: boolean;
+  continuesAfter: boolean;
+}
+
+// Events listed in a day cell before the rest collapse into "+N"
+const MAX_EVENTS_PER_DAY: Record<CalendarView, number> = { month: 3, week: 8 };
+
+function dayKey(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+function nextDay(day: string): string {
+  return dayKey(addDays(parseISO(day), 1));
+}
+
+// Days an event takes place on within the searched range: its sessions, or
+// every day of its run
+function eventDays(event: Event, dateFrom: string, dateTo: string): string[] {
+  if (event.sessions.length > 0) {
+    return Array.from(new Set(event.sessions.map((session) => session.date)))
+      .filter((day) => day >= dateFrom && day <= dateTo)
+      .sort();
+  }
+
+  const days: string[] = [];
+  const last = event.endDate ?? event.startDate;
+  for (let day = event.startDate > dateFrom ? event.startDate : dateFrom; day <= last && day <= dateTo; day = nextDay(day)) {
+    days.push(day);
+  }
+  return days;
+}
+
+// Place events on their days. Longer runs come first so their bars line up from day to day.
+function groupByDay(events: Event[], dateFrom: string, dateTo: string): Map<string, DayEntry[]> {
+  const placed = events
+    .map((event) => ({ event, days: eventDays(event, dateFrom, dateTo) }))
+    .sort((a, b) => b.days.length - a.days.length || a.days[0]?.localeCompare(b.days[0] ?? "") || 0);
+
+  const byDay = new Map<string, DayEntry[]>();
+  for (const { event, days } of placed) {
+    days.forEach((day, index) => {
+      const entries = byDay.get(day) ?? [];
+      entries.push({
+        event,
+        continuesBefore: index > 0 && nextDay(days[index - 1]) === day,
+        continuesAfter: index < days.length - 1 && nextDay(day) === days[index + 1],
+      });
+      byDay.set(day, entries);
+    });
+  }
+  return byDay;
+}
+
+// Month or week calendar of search results; each event links to its detail page
+export default function EventCalendar({ events, searchParams, view }: EventCalendarProps) {
+  const { t, language } = useLanguage();
+  const locale = language === "ja" ? ja : enUS;
+  const rangeStart = useMemo(() => parseISO(searchParams.dateFrom), [searchParams.dateFrom]);
+  const rangeEnd = useMemo(() => parseISO(searchParams.dateTo), [searchParams.dateTo]);
+
+  const [month, setMonth] = useState(() => startOfMonth(rangeStart));
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(rangeStart, { locale }));
+
+  // 検索期間が変わったら最初の月・週に戻す
+  useEffect(() => {
+    setMonth(startOfMonth(rangeStart));
+    setWeekStart(startOfWeek(rangeStart, { locale }));
+  }, [rangeStart, locale]);
+
+  const byDay = useMemo(
+    () => groupByDay(events, searchParams.dateFrom, searchParams.dateTo),
+    [events, searchParams.dateFrom, searchParams.dateTo]
+  );
+
+  const maxEvents = MAX_EVENTS_PER_DAY[view];
+
+  const DayContent = ({ date, activeModifiers }: DayContentProps) => {
+    const key = dayKey(date);
+    const inRange = key >= searchParams.dateFrom && key <= searchParams.dateTo;
+    // Outside days belong to the neighbouring month; the week view shows them in full
+    const entries = inRange && (view === "week" || !activeModifiers.outside) ? byDay.get(key) ?? [] : [];
+
+    return (
+      <div className={cn("flex h-full w-full flex-col gap-1 text-left", !inRange && "opacity-50")}>
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-medium">
+            {view === "week" ? format(date, "M/d (EEE)", { locale }) : format(date, "d")}
+          </span>
+          {entries.length > 0 && (
+            <span
+              className="rounded-full bg-primary px-1.5 text-[0.7rem] leading-4 text-primary-foreground"
+              aria-label={t("eventsOnDay").replace("{count}", String(entries.length))}
+            >
+              {entries.length}
+            </span>
+          )}
+        </div>
+        {entries.slice(0, maxEvents).map(({ event, continuesBefore, continuesAfter }) => {
+          const title = language === "ja" ? event.titleJa : event.titleEn;
+          return (
+            <Link
+              key={event.id}
+              href={`/event/${event.id}`}
+              title={title}
+              className={cn(
+                "block truncate bg-primary/10 px-1 text-xs text-primary hover:bg-primary/20",
+                continuesBefore ? "-ml-1" : "rounded-l",
+                continuesAfter ? "-mr-1" : "rounded-r"
+              )}
+            >
+              {title}
+            </Link>
+          );
+        })}
+        {entries.length > maxEvents && (
+          <span className="text-xs text-gray-500">+{entries.length - maxEvents}</span>
+        )}
+      </div>
+    );
+  };
+
+  // The week view is the month grid with every other row left out
+  const WeekRow = (props: RowProps) =>
+    props.dates.some((date) => isSameDay(date, weekStart)) ? <Row {...props} /> : null;
+
+  const lastWeekStart = startOfWeek(rangeEnd, { locale });
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+      {view === "week" && (
+        <div className="flex items-center justify-between mb-4">
+          <Button
+            variant="outline"
+            size="icon"
+            aria-label={t("previousWeek")}
+            onClick={() => setWeekStart(addWeeks(weekStart, -1))}
+            disabled={weekStart <= rangeStart}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm font-medium">
+            {format(weekStart, "PP", { locale })} – {format(addDays(weekStart, 6), "PP", { locale })}
+          </span>
+          <Button
+            variant="outline"
+            size="icon"
+            aria-label={t("nextWeek")}
+            onClick={() => setWeekStart(addWeeks(weekStart, 1))}
+            disabled={weekStart >= lastWeekStart}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+      <Calendar
+        locale={locale}
+        month={view === "week" ? weekStart : month}
+        onMonthChange={setMonth}
+        fromMonth={startOfMonth(rangeStart)}
+        toMonth={rangeEnd}
+        disableNavigation={view === "week"}
+        className="p-0"
+        classNames={{
+          months: "w-full",
+          month: "w-full space-y-4",
+          caption: view === "week" ? "hidden" : "flex justify-center pt-1 relative items-center",
+          table: "w-full border-collapse",
+          head_row: "grid grid-cols-7",
+          head_cell: "text-muted-foreground text-xs font-normal py-1",
+          row: "grid grid-cols-7",
+          cell: cn("border p-1 align-top overflow-hidden", view === "week" ? "min-h-40" : "min-h-24"),
+          day: "h-full w-full",
+          day_today: "bg-accent/40",
+          day_outside: "text-muted-foreground",
+        }}
+        components={view === "week" ? { DayContent, Row: WeekRow } : { DayContent }}
+      />
+    </div>
+  );
+}
@@ -2,11 +2,13 @@ import { useState } from "react";
 import { Link } from "wouter";
 import { useMutation } from "@tanstack/react-query";
 import { Event } from "@shared/schema";
-import { useLanguage } from "@/lib/i18n";
+import { useLanguage, categoryLabelKey } from "@/lib/i18n";
+import { formatEventSchedule } from "@/lib/eventTime";
 import { useAuth } from "@/context/AuthContext";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Heart, Calendar, MapPin } from "lucide-react";
 
 interface EventCardProps {
@@ -16,7 +18,7 @@ interface EventCardProps {
 
 export default function EventCard({ event, isFavorite: initialIsFavorite = false }: EventCardProps) {
   const { t, language } = useLanguage();
-  const { user } = useAuth();
+  const { user, promptLogin } = useAuth();
   const { toast } = useToast();
   const [isFavorite, setIsFavorite] = useState(initialIsFavorite);
 
@@ -58,12 +60,9 @@ export default function EventCard({ event, isFavorite: initialIsFavorite = false
     e.preventDefault();
     e.stopPropagation();
     
+    // お気に入りにはアカウントが必要なので、未ログインならログインを促す
     if (!user) {
-      toast({
-        title: "Authentication required",
-        description: "You need to be logged in to add favorites",
-        variant: "destructive",
-      });
+      promptLogin("login");
       return;
     }
     
@@ -78,27 +77,37 @@ export default function EventCard({ event, isFavorite: initialIsFavorite = false
           alt={title} 
           className="w-full h-48 object-cover" 
         />
-        {user && (
-          <Button
-            variant="ghost"
-            className={`absolute top-2 right-2 p-1.5 bg-white bg-opacity-70 rounded-full hover:bg-opacity-100 transition-all ${isFavorite ? 'text-pink-500' : 'text-gray-400 hover:text-pink-500'}`}
-            onClick={handleFavoriteClick}
-            disabled={toggleFavoriteMutation.isPending}
-          >
-            <Heart fill={isFavorite ? "currentColor" : "none"} />
-          </Button>
+        {event.synthetic && (
+          <Badge variant="secondary" className="absolute top-2 left-2">
+            {t("syntheticEvent")}
+          </Badge>
         )}
+        <Button
+          variant="ghost"
+          className={`absolute top-2 right-2 p-1.5 bg-white bg-opacity-70 rounded-full hover:bg-opacity-100 transition-all ${isFavorite ? 'text-pink-500' : 'text-gray-400 hover:text-pink-500'}`}
+          onClick={handleFavoriteClick}
+          disabled={toggleFavoriteMutation.isPending}
+        >
+          <Heart fill={isFavorite ? "currentColor" : "none"} />
+        </Button>
       </div>
       
       <div className="p-4 flex-grow">
         <h3 className="font-bold text-lg text-gray-800 mb-1 line-clamp-2">
           {title}
         </h3>
+        <div className="flex flex-wrap gap-1 mb-2">
+          <Badge variant="outline">
+            {t(categoryLabelKey(event.category))}
+          </Badge>
+          {event.isFree && (
+            <Badge variant="secondary">{t("free")}</Badge>
+          )}
+        </div>
         <div className="flex items-center text-sm text-gray-600 mb-2">
           <Calendar className="text-gray-400 mr-1 h-4 w-4" />
           <span>
-            {event.startDate}
-            {event.endDate && ` - ${event.endDate}`}
+            {formatEventSchedule(event)}
           </span>
         </div>
         <div className="flex items-center text-sm text-gray-600 mb-3">
@@ -0,0 +1,221 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { District, DistrictGeoCollection, DistrictGeoFeature, Event, GeoPosition } from "@shared/schema";
+import { useLanguage } from "@/lib/i18n";
+import { closestDistrict, toggleDistrict } from "@/lib/districts";
+import { cn } from "@/lib/utils";
+
+interface EventMapProps {
+  events: Event[];
+  selectedDistricts: string[];
+  onDistrictSelect: (district: string[] | undefined) => void; // undefined clears the filter
+}
+
+// Width of the SVG viewBox; the height follows from the boundaries' aspect ratio
+const MAP_WIDTH = 800;
+const MAP_PADDING = 16;
+
+// Equirectangular projection of the boundaries' bounding box onto the viewBox.
+// Longitudes are shortened by cos(latitude), which keeps Tokyo's shapes true
+// at this scale without a map library.
+function createProjection(features: DistrictGeoFeature[]) {
+  const positions = features.flatMap((feature) =>
+    feature.geometry.type === "Polygon"
+      ? feature.geometry.coordinates.flat()
+      : feature.geometry.coordinates.flat(2)
+  );
+  const lngs = positions.map(([lng]) => lng);
+  const lats = positions.map(([, lat]) => lat);
+  const minLng = Math.min(...lngs);
+  const maxLat = Math.max(...lats);
+  const lngScale = Math.cos(((Math.min(...lats) + maxLat) / 2) * Math.PI / 180);
+  const scale = (MAP_WIDTH - MAP_PADDING * 2) / ((Math.max(...lngs) - minLng) * lngScale);
+  const height = (maxLat - Math.min(...lats)) * scale + MAP_PADDING * 2;
+
+  const project = ([lng, lat]: GeoPosition): [number, number] => [
+    MAP_PADDING + (lng - minLng) * lngScale * scale,
+    MAP_PADDING + (maxLat - lat) * scale,
+  ];
+  return { project, height };
+}
+
+function featurePath(feature: DistrictGeoFeature, project: (position: GeoPosition) => [number, number]): string {
+  const polygons = feature.geometry.type === "Polygon"
+    ? [feature.geometry.coordinates]
+    : feature.geometry.coordinates;
+  return polygons
+    .flat()
+    .map((ring) => ring.map((position, index) => {
+      const [x, y] = project(position);
+      return `${index === 0 ? "M" : "L"}${x.toFixed(1)},${y.toFixed(1)}`;
+    }).join("") + "Z")
+    .join("");
+}
+
+// Cluster circles grow with the number of events but stay small enough not to
+// cover the neighbouring central districts
+function clusterRadius(count: number): number {
+  return Math.min(8 + 3 * Math.sqrt(count), 18);
+}
+
+// Map of search results drawn from the bundled district boundaries: events are
+// clustered per district, and clicking districts adds them to or removes them
+// from the search
+export default function EventMap({ events, selectedDistricts, onDistrictSelect }: EventMapProps) {
+  const { t, language } = useLanguage();
+  const [, navigate] = useLocation();
+
+  const { data: geo, isLoading, error } = useQuery<DistrictGeoCollection>({
+    queryKey: ["/api/districts/geo"],
+  });
+  const { data: districts } = useQuery<District[]>({
+    queryKey: ["/api/districts"],
+  });
+
+  const projection = useMemo(() => (geo ? createProjection(geo.features) : null), [geo]);
+
+  // Boundaries are drawn per area, so events in a ward or city count towards its area
+  const mapped = useMemo(() => new Set(geo?.features.map((feature) => feature.properties.value)), [geo]);
+  const mapDistrict = (value: string) => closestDistrict(districts ?? [], value, mapped);
+
+  const countByDistrict = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const event of events) {
+      const area = mapDistrict(event.district);
+      if (area) {
+        counts.set(area, (counts.get(area) ?? 0) + 1);
+      }
+    }
+    return counts;
+  }, [events, districts, mapped]);
+
+  if (error) {
+    return (
+      <div className="bg-white rounded-lg shadow-md p-6 text-center text-gray-600">
+        {error.message}
+      </div>
+    );
+  }
+
+  if (isLoading || !geo || !projection) {
+    return (
+      <div className="bg-white rounded-lg shadow-md p-6 flex justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const { project, height } = projection;
+  const maxCount = Math.max(1, ...Array.from(countByDistrict.values()));
+  const located = events.filter((event) => event.lat !== null && event.lng !== null);
+  const unmapped = events.filter((event) => !mapDistrict(event.district) && (event.lat === null || event.lng === null));
+  // A selected ward is shown through its area
+  const selected = new Set(selectedDistricts.map(mapDistrict));
+
+  const districtName = (value: string) => {
+    const district = districts?.find((item) => item.value === value);
+    return district ? (language === "ja" ? district.nameJa : district.nameEn) : value;
+  };
+
+  // 選択中の地区をもう一度クリックすると選択から外す（区を選択中ならエリアに広げる）
+  const toggleArea = (value: string) => {
+    const next = toggleDistrict(districts ?? [], selectedDistricts, value, !selectedDistricts.includes(value));
+    onDistrictSelect(next.length > 0 ? next.sort() : undefined);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 space-y-2">
+      <svg
+        viewBox={`0 0 ${MAP_WIDTH} ${height.toFixed(0)}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label={t("viewMap")}
+      >
+        {geo.features.map((feature) => {
+          const { value } = feature.properties;
+          const count = countByDistrict.get(value) ?? 0;
+          const label = `${districtName(value)}: ${t("eventsOnDay").replace("{count}", String(count))}`;
+          return (
+            <path
+              key={value}
+              d={featurePath(feature, project)}
+              className={cn(
+                "cursor-pointer stroke-white fill-primary transition-opacity hover:opacity-80 focus:outline-none",
+                selected.has(value) && "stroke-primary"
+              )}
+              strokeWidth={selected.has(value) ? 3 : 1.5}
+              // 件数が多い地区ほど濃く塗る
+              fillOpacity={count > 0 ? 0.25 + 0.5 * (count / maxCount) : 0.08}
+              role="button"
+              tabIndex={0}
+              aria-label={label}
+              aria-pressed={selected.has(value)}
+              onClick={() => toggleArea(value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" || e.key === " ") {
+                  e.preventDefault();
+                  toggleArea(value);
+                }
+              }}
+            >
+              <title>{label}</title>
+            </path>
+          );
+        })}
+
+        {/* Venues with known coordinates */}
+        {located.map((event) => {
+          const [x, y] = project([event.lng!, event.lat!]);
+          const title = language === "ja" ? event.titleJa : event.titleEn;
+          return (
+            <circle
+              key={event.id}
+              cx={x}
+              cy={y}
+              r={3}
+              className="cursor-pointer fill-white stroke-primary"
+              strokeWidth={1.5}
+              onClick={() => navigate(`/event/${event.id}`)}
+            >
+              <title>{title}</title>
+            </circle>
+          );
+        })}
+
+        {/* One cluster per district, at its centroid */}
+        {geo.features.map((feature) => {
+          const { value, centroid } = feature.properties;
+          const count = countByDistrict.get(value) ?? 0;
+          if (count === 0) {
+            return null;
+          }
+          const [x, y] = project(centroid);
+          return (
+            <g key={value} className="cursor-pointer" onClick={() => toggleArea(value)} aria-hidden="true">
+              <circle cx={x} cy={y} r={clusterRadius(count)} className="fill-primary stroke-white" strokeWidth={2} />
+              <text
+                x={x}
+                y={y}
+                textAnchor="middle"
+                dominantBaseline="central"
+                className="fill-primary-foreground text-xs font-semibold pointer-events-none"
+              >
+                {count}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+
+      <p className="text-sm text-gray-500">
+        {selectedDistricts.length > 0 ? t("mapClearHint") : t("mapFilterHint")}
+      </p>
+      {unmapped.length > 0 && (
+        <p className="text-sm text-gray-500">
+          {t("eventsNotOnMap").replace("{count}", String(unmapped.length))}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -4,21 +4,23 @@ import { useLanguage } from "@/lib/i18n";
 import { useAuth } from "@/context/AuthContext";
 import LanguageToggle from "@/components/LanguageToggle";
 import LoginModal from "@/components/LoginModal";
+import CalendarFeedDialog from "@/components/CalendarFeedDialog";
 import { Button } from "@/components/ui/button";
 import {
   User,
   LogOut,
   Heart,
   ChevronDown,
+  CalendarHeart,
+  MapPinned,
 } from "lucide-react";
 
 export default function Header() {
   const { t } = useLanguage();
-  const { user, logout } = useAuth();
+  const { user, logout, loginPrompt, promptLogin, closeLoginPrompt } = useAuth();
   const [location] = useLocation();
-  const [isLoginModalOpen, setIsLoginModalOpen] = useState(false);
-  const [isRegistering, setIsRegistering] = useState(false);
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
+  const [isFeedDialogOpen, setIsFeedDialogOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   // Close dropdown when clicking outside
@@ -35,16 +37,6 @@ export default function Header() {
     };
   }, [dropdownRef]);
 
-  const handleLoginClick = () => {
-    setIsRegistering(false);
-    setIsLoginModalOpen(true);
-  };
-
-  const handleRegisterClick = () => {
-    setIsRegistering(true);
-    setIsLoginModalOpen(true);
-  };
-
   const handleLogout = () => {
     logout();
     setIsDropdownOpen(false);
@@ -70,13 +62,13 @@ export default function Header() {
                 <Button
                   variant="outline"
                   className="border-primary text-primary hover:bg-primary hover:text-white"
-                  onClick={handleLoginClick}
+                  onClick={() => promptLogin("login")}
                 >
                   {t("login")}
                 </Button>
                 <Button
                   className="bg-primary text-white hover:bg-indigo-700"
-                  onClick={handleRegisterClick}
+                  onClick={() => promptLogin("register")}
                 >
                   {t("register")}
                 </Button>
@@ -105,6 +97,30 @@ export default function Header() {
                   {/* User Dropdown Menu */}
                   {isDropdownOpen && (
                     <div className="absolute right-0 mt-2 w-48 bg-white rounded-md shadow-lg py-1 z-10">
+                      <button
+                        className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                        onClick={() => {
+                          setIsFeedDialogOpen(true);
+                          setIsDropdownOpen(false);
+                        }}
+                      >
+                        <div className="flex items-center">
+                          <CalendarHeart className="mr-2 h-4 w-4" />
+                          {t("calendarFeed")}
+                        </div>
+                      </button>
+                      {user.isAdmin && (
+                        <Link
+                          href="/admin/districts"
+                          className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                          onClick={() => setIsDropdownOpen(false)}
+                        >
+                          <div className="flex items-center">
+                            <MapPinned className="mr-2 h-4 w-4" />
+                            {t("manageDistricts")}
+                          </div>
+                        </Link>
+                      )}
                       <button
                         className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
                         onClick={handleLogout}
@@ -123,12 +139,16 @@ export default function Header() {
         </div>
       </div>
 
-      {/* Login Modal */}
+      {user && (
+        <CalendarFeedDialog isOpen={isFeedDialogOpen} onClose={() => setIsFeedDialogOpen(false)} />
+      )}
+
+      {/* Login Modal, shared with every page through promptLogin */}
       <LoginModal
-        isOpen={isLoginModalOpen}
-        isRegistering={isRegistering}
-        onClose={() => setIsLoginModalOpen(false)}
-        onSwitchMode={(mode) => setIsRegistering(mode === "register")}
+        isOpen={loginPrompt !== null}
+        isRegistering={loginPrompt === "register"}
+        onClose={closeLoginPrompt}
+        onSwitchMode={promptLogin}
       />
     </header>
   );
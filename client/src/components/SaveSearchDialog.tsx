@@ -0,0 +1,114 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { District, SearchParams } from "@shared/schema";
+import { useLanguage, categoryLabelKey } from "@/lib/i18n";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+
+interface SaveSearchDialogProps {
+  params: SearchParams | null; // the search to save; the dialog is open while set
+  onClose: () => void;
+}
+
+export default function SaveSearchDialog({ params, onClose }: SaveSearchDialogProps) {
+  const { t, language } = useLanguage();
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [rolling, setRolling] = useState(true);
+
+  const { data: districts } = useQuery<District[]>({
+    queryKey: ["/api/districts"],
+  });
+
+  // 検索条件から名前の候補を作る（例: "花火 · 新宿・渋谷エリア"）
+  useEffect(() => {
+    if (!params) {
+      return;
+    }
+    const chosen = districts?.filter((item) => params.district?.includes(item.value)) ?? [];
+    const parts = [
+      params.q,
+      ...chosen.map((district) => language === "ja" ? district.nameJa : district.nameEn),
+      ...(params.category ?? []).map((category) => t(categoryLabelKey(category))),
+    ].filter(Boolean);
+    setName((parts.length > 0 ? parts.join(" · ") : `${params.dateFrom} – ${params.dateTo}`).slice(0, 100));
+    setRolling(true);
+  }, [params, districts, language]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/saved-searches", { name: name.trim(), params, rolling });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+      toast({
+        title: t("searchSaved"),
+        description: t("searchSavedDescription"),
+      });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: t("error"),
+        description: error instanceof Error ? error.message : "Failed to save search",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate();
+  };
+
+  return (
+    <Dialog open={params !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t("saveSearch")}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="savedSearchName">{t("searchName")}</Label>
+            <Input
+              id="savedSearchName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              required
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="savedSearchRolling"
+              checked={rolling}
+              onCheckedChange={(checked) => setRolling(checked === true)}
+            />
+            <Label htmlFor="savedSearchRolling" className="text-sm font-normal text-gray-700">
+              {t("rollingDates")}
+            </Label>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              {t("cancel")}
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending || name.trim() === ""}>
+              {t("save")}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,81 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { SavedSearchResponse, SearchParams } from "@shared/schema";
+import { useLanguage } from "@/lib/i18n";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Bookmark, Trash2 } from "lucide-react";
+
+interface SavedSearchesProps {
+  onSelect: (params: SearchParams) => void;
+}
+
+// The logged-in user's saved searches, with the number of events found since
+// each was last opened
+export default function SavedSearches({ onSelect }: SavedSearchesProps) {
+  const { t } = useLanguage();
+
+  const { data: savedSearches } = useQuery<SavedSearchResponse[]>({
+    queryKey: ["/api/saved-searches"],
+  });
+
+  const viewedMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest("POST", `/api/saved-searches/${id}/viewed`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest("DELETE", `/api/saved-searches/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+    },
+  });
+
+  if (!savedSearches || savedSearches.length === 0) {
+    return null;
+  }
+
+  const handleSelect = (savedSearch: SavedSearchResponse) => {
+    onSelect(savedSearch.currentParams);
+    if (savedSearch.newEventIds.length > 0) {
+      viewedMutation.mutate(savedSearch.id);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+      <h2 className="text-lg font-semibold text-gray-800 mb-4">
+        {t("savedSearches")}
+      </h2>
+      <ul className="flex flex-wrap gap-3">
+        {savedSearches.map((savedSearch) => (
+          <li key={savedSearch.id} className="flex items-center rounded-md border">
+            <Button variant="ghost" className="h-auto py-2" onClick={() => handleSelect(savedSearch)}>
+              <Bookmark className="mr-2 h-4 w-4 text-primary" />
+              <span className="text-left">
+                <span className="block">{savedSearch.name}</span>
+                {savedSearch.newEventIds.length > 0 && (
+                  <Badge variant="secondary" className="mt-1">
+                    {t("newEventsSinceLastVisit").replace("{count}", String(savedSearch.newEventIds.length))}
+                  </Badge>
+                )}
+              </span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label={t("deleteSavedSearch")}
+              title={t("deleteSavedSearch")}
+              onClick={() => deleteMutation.mutate(savedSearch.id)}
+              disabled={deleteMutation.isPending}
+            >
+              <Trash2 className="h-4 w-4 text-gray-500" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,147 +1,245 @@
 import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { SearchParams, District } from "@shared/schema";
-import { useLanguage } from "@/lib/i18n";
+import { addDays, format, isValid, parseISO } from "date-fns";
+import { SearchParams, EventCategory, eventCategories, MAX_SEARCH_DAYS } from "@shared/schema";
+import { useLanguage, categoryLabelKey } from "@/lib/i18n";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { 
-  Select, 
-  SelectContent, 
-  SelectGroup,
-  SelectItem, 
-  SelectLabel,
-  SelectTrigger, 
-  SelectValue 
-} from "@/components/ui/select";
-import { Search, Calendar } from "lucide-react";
+import DistrictMultiSelect from "@/components/DistrictMultiSelect";
+import { Search, Calendar, BookmarkPlus } from "lucide-react";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 
 interface SearchFormProps {
   onSearch: (params: SearchParams) => void;
+  onSave?: (params: SearchParams) => void; // shows a "save this search" button
   initialValues?: SearchParams;
 }
 
-export default function SearchForm({ onSearch, initialValues }: SearchFormProps) {
-  const { t, language } = useLanguage();
+export default function SearchForm({ onSearch, onSave, initialValues }: SearchFormProps) {
+  const { t } = useLanguage();
   const [dateFrom, setDateFrom] = useState(initialValues?.dateFrom || "");
   const [dateTo, setDateTo] = useState(initialValues?.dateTo || "");
-  const [district, setDistrict] = useState(initialValues?.district || "all");
-
-  // Query to fetch districts
-  const { data: districts } = useQuery<District[]>({
-    queryKey: ["/api/districts"],
-  });
+  const [district, setDistrict] = useState<string[]>(initialValues?.district || []);
+  const [q, setQ] = useState(initialValues?.q || "");
+  const [categories, setCategories] = useState<EventCategory[]>(initialValues?.category || []);
+  const [free, setFree] = useState(initialValues?.free || false);
+  const [maxPrice, setMaxPrice] = useState(initialValues?.maxPrice?.toString() || "");
+  const [evening, setEvening] = useState(initialValues?.evening || false);
+  const [weekend, setWeekend] = useState(initialValues?.weekend || false);
 
   // Update form when initialValues change
   useEffect(() => {
     if (initialValues) {
       setDateFrom(initialValues.dateFrom);
       setDateTo(initialValues.dateTo);
-      setDistrict(initialValues.district || "all");
+      setDistrict(initialValues.district || []);
+      setQ(initialValues.q || "");
+      setCategories(initialValues.category || []);
+      setFree(initialValues.free || false);
+      setMaxPrice(initialValues.maxPrice?.toString() || "");
+      setEvening(initialValues.evening || false);
+      setWeekend(initialValues.weekend || false);
     }
   }, [initialValues]);
 
+  // Current form values as search parameters
+  const formParams = (): SearchParams => ({
+    dateFrom,
+    dateTo,
+    district: district.length > 0 ? [...district].sort() : undefined,
+    q: q.trim() || undefined,
+    category: categories.length > 0 ? categories : undefined,
+    free: free || undefined,
+    maxPrice: !free && maxPrice !== "" ? Number(maxPrice) : undefined,
+    evening: evening || undefined,
+    weekend: weekend || undefined,
+  });
+
+  // The server accepts at most MAX_SEARCH_DAYS days from dateFrom
+  const latestDateTo = isValid(parseISO(dateFrom))
+    ? format(addDays(parseISO(dateFrom), MAX_SEARCH_DAYS - 1), "yyyy-MM-dd")
+    : undefined;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSearch({
-      dateFrom,
-      dateTo,
-      district: district === "all" ? undefined : district,
-    });
+    onSearch(formParams());
+  };
+
+  const handleSave = (e: React.MouseEvent<HTMLButtonElement>) => {
+    // Save only what could be searched, e.g. not an empty date range
+    if (e.currentTarget.form?.reportValidity() === false) {
+      return;
+    }
+    onSave?.(formParams());
   };
 
-  // Group districts by parent area
-  const groupedDistricts: Record<string, District[]> = {};
-  
-  if (districts) {
-    districts.forEach(district => {
-      if (!groupedDistricts[district.parentArea]) {
-        groupedDistricts[district.parentArea] = [];
-      }
-      groupedDistricts[district.parentArea].push(district);
-    });
-  }
+  const toggleCategory = (category: EventCategory, checked: boolean) => {
+    setCategories((current) =>
+      checked ? [...current, category] : current.filter((value) => value !== category)
+    );
+  };
 
   return (
-    <form onSubmit={handleSubmit} className="space-y-6 lg:space-y-0 lg:flex lg:space-x-4">
-      {/* Date Range Selection */}
-      <div className="lg:w-2/5 space-y-2">
-        <Label className="block text-sm font-medium text-gray-700">
-          {t("dateRange")}
-        </Label>
-        <div className="flex space-x-2">
-          <div className="w-1/2">
-            <div className="relative">
-              <Input
-                type="date"
-                id="dateFrom"
-                value={dateFrom}
-                onChange={(e) => setDateFrom(e.target.value)}
-                className="pl-3 pr-10"
-                required
-              />
-              <span className="absolute inset-y-0 right-0 flex items-center pr-2 pointer-events-none text-gray-500">
-                <Calendar className="h-4 w-4" />
-              </span>
+    <form onSubmit={handleSubmit} className="space-y-6 lg:space-y-4">
+      <div className="space-y-6 lg:space-y-0 lg:flex lg:space-x-4">
+        {/* Date Range Selection */}
+        <div className="lg:w-2/5 space-y-2">
+          <Label className="block text-sm font-medium text-gray-700">
+            {t("dateRange")}
+          </Label>
+          <div className="flex space-x-2">
+            <div className="w-1/2">
+              <div className="relative">
+                <Input
+                  type="date"
+                  id="dateFrom"
+                  value={dateFrom}
+                  onChange={(e) => setDateFrom(e.target.value)}
+                  className="pl-3 pr-10"
+                  required
+                />
+                <span className="absolute inset-y-0 right-0 flex items-center pr-2 pointer-events-none text-gray-500">
+                  <Calendar className="h-4 w-4" />
+                </span>
+              </div>
             </div>
-          </div>
-          <div className="w-1/2">
-            <div className="relative">
-              <Input
-                type="date"
-                id="dateTo"
-                value={dateTo}
-                onChange={(e) => setDateTo(e.target.value)}
-                className="pl-3 pr-10"
-                required
-              />
-              <span className="absolute inset-y-0 right-0 flex items-center pr-2 pointer-events-none text-gray-500">
-                <Calendar className="h-4 w-4" />
-              </span>
+            <div className="w-1/2">
+              <div className="relative">
+                <Input
+                  type="date"
+                  id="dateTo"
+                  value={dateTo}
+                  onChange={(e) => setDateTo(e.target.value)}
+                  min={dateFrom || undefined}
+                  max={latestDateTo}
+                  className="pl-3 pr-10"
+                  required
+                />
+                <span className="absolute inset-y-0 right-0 flex items-center pr-2 pointer-events-none text-gray-500">
+                  <Calendar className="h-4 w-4" />
+                </span>
+              </div>
             </div>
           </div>
         </div>
-      </div>
       
-      {/* District Selection */}
-      <div className="lg:w-2/5">
-        <Label htmlFor="district" className="block text-sm font-medium text-gray-700">
-          {t("district")}
-        </Label>
-        <Select value={district} onValueChange={setDistrict}>
-          <SelectTrigger className="mt-1 w-full">
-            <SelectValue placeholder={t("allDistricts")} />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="all">{t("allDistricts")}</SelectItem>
-            
-            {Object.keys(groupedDistricts).map((parentArea) => (
-              <SelectGroup key={parentArea}>
-                <SelectLabel>
-                  {language === "ja" ? parentArea : 
-                    parentArea === "23区" ? "23 Wards" : 
-                    parentArea === "多摩地域" ? "Tama Region" : parentArea}
-                </SelectLabel>
-                {groupedDistricts[parentArea].map((district) => (
-                  <SelectItem key={district.id} value={district.value}>
-                    {language === "ja" ? district.nameJa : district.nameEn}
-                  </SelectItem>
-                ))}
-              </SelectGroup>
-            ))}
-          </SelectContent>
-        </Select>
-      </div>
+        {/* District Selection */}
+        <div className="lg:w-1/5">
+          <Label htmlFor="district" className="block text-sm font-medium text-gray-700">
+            {t("district")}
+          </Label>
+          <DistrictMultiSelect id="district" value={district} onChange={setDistrict} />
+        </div>
       
-      {/* Search Button */}
-      <div className="lg:w-1/5 flex items-end">
-        <Button 
-          type="submit" 
-          className="w-full inline-flex justify-center bg-primary hover:bg-indigo-700"
-        >
-          <Search className="mr-2 h-4 w-4" />
-          {t("search")}
-        </Button>
+        {/* Keyword */}
+        <div className="lg:w-1/5">
+          <Label htmlFor="q" className="block text-sm font-medium text-gray-700">
+            {t("keyword")}
+          </Label>
+          <Input
+            type="search"
+            id="q"
+            value={q}
+            onChange={(e) => setQ(e.target.value)}
+            placeholder={t("keywordPlaceholder")}
+            maxLength={100}
+            className="mt-1"
+          />
+        </div>
+      
+        {/* Search Button */}
+        <div className="lg:w-1/5 flex items-end">
+          <Button 
+            type="submit" 
+            className="w-full inline-flex justify-center bg-primary hover:bg-indigo-700"
+          >
+            <Search className="mr-2 h-4 w-4" />
+            {t("search")}
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-8 gap-y-4">
+        {/* Category Selection */}
+        <fieldset className="flex flex-wrap items-center gap-x-4 gap-y-2">
+          <legend className="sr-only">{t("category")}</legend>
+          <span className="text-sm font-medium text-gray-700" aria-hidden="true">
+            {t("category")}
+          </span>
+          {eventCategories.map((category) => (
+            <div key={category} className="flex items-center space-x-2">
+              <Checkbox
+                id={`category-${category}`}
+                checked={categories.includes(category)}
+                onCheckedChange={(checked) => toggleCategory(category, checked === true)}
+              />
+              <Label htmlFor={`category-${category}`} className="text-sm font-normal text-gray-700">
+                {t(categoryLabelKey(category))}
+              </Label>
+            </div>
+          ))}
+        </fieldset>
+
+        {/* Time of Day */}
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="evening"
+              checked={evening}
+              onCheckedChange={(checked) => setEvening(checked === true)}
+            />
+            <Label htmlFor="evening" className="text-sm font-normal text-gray-700">
+              {t("evening")}
+            </Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="weekend"
+              checked={weekend}
+              onCheckedChange={(checked) => setWeekend(checked === true)}
+            />
+            <Label htmlFor="weekend" className="text-sm font-normal text-gray-700">
+              {t("weekend")}
+            </Label>
+          </div>
+        </div>
+
+        {/* Admission */}
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="free"
+              checked={free}
+              onCheckedChange={(checked) => setFree(checked === true)}
+            />
+            <Label htmlFor="free" className="text-sm font-normal text-gray-700">
+              {t("freeOnly")}
+            </Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Label htmlFor="maxPrice" className="text-sm font-medium text-gray-700 whitespace-nowrap">
+              {t("maxPrice")}
+            </Label>
+            <Input
+              type="number"
+              id="maxPrice"
+              value={maxPrice}
+              onChange={(e) => setMaxPrice(e.target.value)}
+              placeholder={t("maxPricePlaceholder")}
+              min={0}
+              disabled={free}
+              className="w-28"
+            />
+          </div>
+        </div>
+
+        {/* Save Search */}
+        {onSave && (
+          <Button type="button" variant="outline" className="lg:ml-auto" onClick={handleSave}>
+            <BookmarkPlus className="mr-2 h-4 w-4" />
+            {t("saveSearch")}
+          </Button>
+        )}
       </div>
     </form>
   );
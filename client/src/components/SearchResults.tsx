@@ -1,46 +1,101 @@
-import { useState, useEffect, useRef, useCallback } from "react";
-import { Event } from "@shared/schema";
-import { useLanguage } from "@/lib/i18n";
+import { useState, useEffect, useRef, useMemo } from "react";
+import { useInfiniteQuery, keepPreviousData } from "@tanstack/react-query";
+import { EventSearchPage, EventSort, SearchParams, eventSorts } from "@shared/schema";
+import { useLanguage, sortLabelKey } from "@/lib/i18n";
+import { useAuth } from "@/context/AuthContext";
 import EventCard from "@/components/EventCard";
+import EventCalendar, { type CalendarView } from "@/components/EventCalendar";
+import EventMap from "@/components/EventMap";
 import { Button } from "@/components/ui/button";
-import { SearchX } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { SearchX, AlertTriangle, LayoutGrid, CalendarDays, CalendarRange, Map as MapIcon } from "lucide-react";
+
+// The calendar and map load the whole range; the largest page the API allows
+// keeps that to a few requests, which count against the anonymous rate limit
+const WHOLE_RANGE_PAGE_SIZE = 100;
 
 interface SearchResultsProps {
-  events: Event[];
-  isLoading: boolean;
-  error?: Error;
-  initialPageSize?: number;
+  searchParams: SearchParams;
+  enabled: boolean;
+  pageSize?: number;
+  sort: EventSort;
+  onSortChange: (sort: EventSort) => void;
+  onDistrictSelect: (district: string[] | undefined) => void;
 }
 
 export default function SearchResults({ 
-  events, 
-  isLoading, 
-  error,
-  initialPageSize = 20 
+  searchParams,
+  enabled,
+  pageSize = 20,
+  sort,
+  onSortChange,
+  onDistrictSelect
 }: SearchResultsProps) {
-  const { t } = useLanguage();
-  const [displayedEvents, setDisplayedEvents] = useState<Event[]>([]);
-  const [page, setPage] = useState(1);
+  const { t, language } = useLanguage();
+  const { user, promptLogin } = useAuth();
   const loader = useRef<HTMLDivElement>(null);
-  const hasMore = displayedEvents.length < events.length;
+  const [view, setView] = useState<"list" | CalendarView | "map">("list");
+  const limit = view === "list" ? pageSize : WHOLE_RANGE_PAGE_SIZE;
 
-  useEffect(() => {
-    // Reset pagination when events change
-    setPage(1);
-    setDisplayedEvents(events.slice(0, initialPageSize));
-  }, [events, initialPageSize]);
+  // イベント検索クエリ - 次のページはサーバーが返すカーソルで取得する
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery<EventSearchPage>({
+    queryKey: [
+      '/api/events', 
+      'dateFrom', searchParams.dateFrom, 
+      'dateTo', searchParams.dateTo, 
+      'district', searchParams.district,
+      'q', searchParams.q,
+      'category', searchParams.category,
+      'free', searchParams.free,
+      'maxPrice', searchParams.maxPrice,
+      'evening', searchParams.evening,
+      'weekend', searchParams.weekend,
+      'sort', sort,
+      'lang', language,
+      'limit', limit
+    ],
+    initialPageParam: undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    // Keep showing the current results while a new sort order loads
+    placeholderData: keepPreviousData,
+    enabled,
+  });
 
-  const loadMore = useCallback(() => {
-    if (isLoading) return;
-    
-    const nextPage = page + 1;
-    const nextEvents = events.slice(0, nextPage * initialPageSize);
-    
-    setDisplayedEvents(nextEvents);
-    setPage(nextPage);
-  }, [isLoading, page, events, initialPageSize]);
+  const events = useMemo(() => data?.pages.flatMap((page) => page.events) ?? [], [data]);
+  const total = data?.pages[0]?.total ?? 0;
+  const meta = data?.pages[0]?.meta;
+  const hasMore = !!hasNextPage;
+
+  const loadMore = () => {
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  };
+
+  // The calendar and map show the whole range at once, so load every page for them
+  useEffect(() => {
+    if (view !== "list" && hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [view, hasNextPage, isFetchingNextPage, fetchNextPage]);
 
-  // Setup intersection observer for infinite scroll
+  // Setup intersection observer for infinite scroll; the Load more button
+  // stays as a fallback where the observer never fires
   useEffect(() => {
     const currentLoader = loader.current;
     
@@ -48,21 +103,19 @@ export default function SearchResults({
     
     const observer = new IntersectionObserver(
       (entries) => {
-        if (entries[0].isIntersecting && hasMore && !isLoading) {
-          loadMore();
+        if (entries[0].isIntersecting && hasNextPage && !isFetchingNextPage) {
+          fetchNextPage();
         }
       },
-      { threshold: 1.0 }
+      { rootMargin: "200px" }
     );
     
     observer.observe(currentLoader);
     
     return () => {
-      if (currentLoader) {
-        observer.unobserve(currentLoader);
-      }
+      observer.unobserve(currentLoader);
     };
-  }, [hasMore, isLoading, loadMore]);
+  }, [hasMore, hasNextPage, isFetchingNextPage, fetchNextPage]);
 
   if (error) {
     return (
@@ -70,12 +123,18 @@ export default function SearchResults({
         <div className="text-center py-12">
           <h2 className="text-xl font-semibold text-error mb-2">Error</h2>
           <p className="text-gray-600">{error.message}</p>
+          {/* Anonymous searches are rate limited; logged-in users are not */}
+          {!user && (
+            <Button className="mt-4" onClick={() => promptLogin()}>
+              {t("login")}
+            </Button>
+          )}
         </div>
       </div>
     );
   }
 
-  if (isLoading && displayedEvents.length === 0) {
+  if (isLoading && events.length === 0) {
     return (
       <div className="bg-white rounded-lg shadow-md p-6">
         <div className="flex justify-between items-center mb-6">
@@ -108,34 +167,86 @@ export default function SearchResults({
 
   return (
     <div className="space-y-6">
+      {/* Partial results warning */}
+      {meta?.partial && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{t("partialResults")}</AlertDescription>
+        </Alert>
+      )}
+
       {/* Results Header */}
       <div className="flex justify-between items-center">
         <h2 className="text-xl font-semibold text-gray-800">
-          {t("searchResults")} ({events.length})
+          {t("searchResults")} ({total})
         </h2>
         {events.length > 0 && (
-          <div className="text-sm text-gray-500">
-            {t("showing")}: 1-{Math.min(displayedEvents.length, events.length)} {t("of")} {events.length}
+          <div className="flex flex-wrap items-center justify-end gap-4">
+            <div className="text-sm text-gray-500">
+              {t("showing")}: 1-{events.length} {t("of")} {total}
+            </div>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              value={view}
+              onValueChange={(value) => value && setView(value as typeof view)}
+              aria-label={t("resultsView")}
+            >
+              <ToggleGroupItem value="list" aria-label={t("viewList")} title={t("viewList")}>
+                <LayoutGrid className="h-4 w-4" />
+              </ToggleGroupItem>
+              <ToggleGroupItem value="month" aria-label={t("viewMonth")} title={t("viewMonth")}>
+                <CalendarDays className="h-4 w-4" />
+              </ToggleGroupItem>
+              <ToggleGroupItem value="week" aria-label={t("viewWeek")} title={t("viewWeek")}>
+                <CalendarRange className="h-4 w-4" />
+              </ToggleGroupItem>
+              <ToggleGroupItem value="map" aria-label={t("viewMap")} title={t("viewMap")}>
+                <MapIcon className="h-4 w-4" />
+              </ToggleGroupItem>
+            </ToggleGroup>
+            <Select value={sort} onValueChange={(value) => onSortChange(value as EventSort)}>
+              <SelectTrigger className="w-44" aria-label={t("sortBy")}>
+                <SelectValue placeholder={t("sortBy")} />
+              </SelectTrigger>
+              <SelectContent>
+                {eventSorts.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {t(sortLabelKey(option))}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
         )}
       </div>
       
-      {/* Results Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {displayedEvents.map((event) => (
-          <EventCard key={event.id} event={event} />
-        ))}
-      </div>
+      {/* Results Grid, Map or Calendar */}
+      {view === "list" ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {events.map((event) => (
+            <EventCard key={event.id} event={event} />
+          ))}
+        </div>
+      ) : view === "map" ? (
+        <EventMap
+          events={events}
+          selectedDistricts={searchParams.district ?? []}
+          onDistrictSelect={onDistrictSelect}
+        />
+      ) : (
+        <EventCalendar events={events} searchParams={searchParams} view={view} />
+      )}
       
       {/* Loading Indicator */}
-      {isLoading && (
+      {isFetchingNextPage && (
         <div className="flex justify-center items-center py-8">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
         </div>
       )}
       
       {/* Loader Reference Element */}
-      {hasMore && !isLoading && (
+      {view === "list" && hasMore && !isFetchingNextPage && (
         <div ref={loader} className="flex justify-center py-4">
           <Button
             variant="outline"
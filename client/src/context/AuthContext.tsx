@@ -1,21 +1,30 @@
 import { createContext, useState, useContext, useEffect, ReactNode } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { User } from "@shared/schema";
+import { UserPreferences, UserResponse } from "@shared/schema";
 
 interface AuthContextType {
-  user: User | null;
+  user: UserResponse | null;
   login: (username: string, password: string) => Promise<void>;
   register: (username: string, password: string) => Promise<void>;
   logout: () => void;
+  updatePreferences: (preferences: UserPreferences) => Promise<void>;
+  // Secret link to the favorites calendar feed: rotate issues a new one, revoke turns it off
+  rotateFeedToken: () => Promise<void>;
+  revokeFeedToken: () => Promise<void>;
   isLoading: boolean;
+  // Login/register dialog, opened wherever an action needs an account
+  loginPrompt: "login" | "register" | null;
+  promptLogin: (mode?: "login" | "register") => void;
+  closeLoginPrompt: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<UserResponse | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [loginPrompt, setLoginPrompt] = useState<"login" | "register" | null>(null);
 
   // Check if user is already logged in
   useEffect(() => {
@@ -120,6 +129,32 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Save preferences, showing the change immediately and rolling back on failure
+  const updatePreferences = async (preferences: UserPreferences) => {
+    if (!user) {
+      return;
+    }
+    const previous = user;
+    setUser({ ...user, ...preferences });
+    try {
+      const res = await apiRequest("PATCH", "/api/auth/me/preferences", preferences);
+      setUser(await res.json());
+    } catch (error) {
+      console.error("Failed to save preferences:", error);
+      setUser(previous);
+    }
+  };
+
+  const rotateFeedToken = async () => {
+    const res = await apiRequest("POST", "/api/auth/me/feed-token");
+    setUser(await res.json());
+  };
+
+  const revokeFeedToken = async () => {
+    const res = await apiRequest("DELETE", "/api/auth/me/feed-token");
+    setUser(await res.json());
+  };
+
   return (
     <AuthContext.Provider
       value={{
@@ -127,7 +162,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         login,
         register,
         logout,
+        updatePreferences,
+        rotateFeedToken,
+        revokeFeedToken,
         isLoading,
+        loginPrompt,
+        promptLogin: (mode = "login") => setLoginPrompt(mode),
+        closeLoginPrompt: () => setLoginPrompt(null),
       }}
     >
       {children}
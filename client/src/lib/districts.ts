@@ -0,0 +1,87 @@
+import { District } from "@shared/schema";
+
+// Districts form a tree through parentArea, which holds the parent's value:
+// region → area → ward or city. Regions have an empty parentArea.
+
+export interface DistrictNode {
+  district: District;
+  depth: number; // 0 for regions
+}
+
+// Districts in display order with every district right after its parent
+export function flattenDistricts(districts: District[]): DistrictNode[] {
+  const values = new Set(districts.map((district) => district.value));
+  const sorted = [...districts].sort((a, b) => a.displayOrder - b.displayOrder);
+  const nodes: DistrictNode[] = [];
+
+  const visit = (district: District, depth: number) => {
+    nodes.push({ district, depth });
+    sorted
+      .filter((child) => child.parentArea === district.value && !nodes.some((node) => node.district === child))
+      .forEach((child) => visit(child, depth + 1));
+  };
+  // Districts whose parent is missing are shown at the top level
+  sorted
+    .filter((district) => !values.has(district.parentArea))
+    .forEach((district) => visit(district, 0));
+
+  return nodes;
+}
+
+// The district itself or its nearest ancestor among `values`, e.g. the area
+// of a ward on a map that only has area boundaries
+export function closestDistrict(districts: District[], value: string, values: Set<string>): string | undefined {
+  const seen = new Set<string>();
+  let current: string | undefined = value;
+  while (current !== undefined && !seen.has(current)) {
+    if (values.has(current)) {
+      return current;
+    }
+    seen.add(current);
+    current = districts.find((district) => district.value === current)?.parentArea;
+  }
+  return undefined;
+}
+
+// Whether a district is already included through one of its ancestors in the selection
+export function includedByAncestor(districts: District[], value: string, selected: string[]): boolean {
+  const parent = districts.find((district) => district.value === value)?.parentArea;
+  return parent !== undefined && closestDistrict(districts, parent, new Set(selected)) !== undefined;
+}
+
+// Add a district to a selection or remove it. A chosen district includes its
+// wards and cities, so they leave the selection when it is added.
+export function toggleDistrict(districts: District[], selected: string[], value: string, checked: boolean): string[] {
+  if (!checked) {
+    return selected.filter((item) => item !== value);
+  }
+  const added = new Set([value]);
+  return [
+    ...selected.filter((item) => closestDistrict(districts, item, added) === undefined),
+    value,
+  ];
+}
+
+// Ids of all districts, flattened, after moving a district to the place of a
+// sibling (e.g. by dragging it onto the sibling). Returns null when the two
+// districts do not share a parent, since only siblings can swap places.
+export function moveDistrict(districts: District[], id: number, targetId: number): number[] | null {
+  const moving = districts.find((district) => district.id === id);
+  const target = districts.find((district) => district.id === targetId);
+  if (!moving || !target || moving.parentArea !== target.parentArea) {
+    return null;
+  }
+
+  const siblings = districts
+    .filter((district) => district.parentArea === moving.parentArea)
+    .sort((a, b) => a.displayOrder - b.displayOrder);
+  const reordered = siblings.filter((district) => district !== moving);
+  reordered.splice(siblings.indexOf(target), 0, moving);
+
+  // Only siblings are compared with each other when flattening
+  const orders = new Map(reordered.map((district, index) => [district.id, index]));
+  return flattenDistricts(districts.map((district) => ({
+    ...district,
+    displayOrder: orders.get(district.id) ?? district.displayOrder,
+  }))).map(({ district }) => district.id);
+}
@@ -0,0 +1,21 @@
+import { Event, EventSession } from "@shared/schema";
+
+// "19:00–22:30", "19:00" or "" for an all-day event; times are Asia/Tokyo
+export function formatTimeRange(startTime: string | null, endTime: string | null): string {
+  if (!startTime) {
+    return "";
+  }
+  return endTime ? `${startTime}–${endTime}` : startTime;
+}
+
+// Date range followed by the daily time range, e.g. "2026-11-21 - 2026-11-23 · 10:00–20:00"
+export function formatEventSchedule(event: Event): string {
+  const dates = event.endDate ? `${event.startDate} - ${event.endDate}` : event.startDate;
+  const times = formatTimeRange(event.startTime, event.endTime);
+  return times ? `${dates} · ${times}` : dates;
+}
+
+export function formatSession(session: EventSession): string {
+  const times = formatTimeRange(session.startTime, session.endTime);
+  return times ? `${session.date} ${times}` : session.date;
+}
@@ -242,8 +242,8 @@ const translations: TranslationDict = {
     en: "Welcome to Tokyo Event Finder"
   },
   welcomeDescription: {
-    ja: "ログインして東京の最新イベントを検索・お気に入り登録しましょう。あなたの興味に合わせたイベント情報をご提供します。",
-    en: "Login to search and save your favorite events in Tokyo. We'll help you discover events that match your interests."
+    ja: "東京の最新イベントをすぐに検索できます。ログインすると、気になるイベントをお気に入りに保存できます。",
+    en: "Search the latest events in Tokyo right away. Log in to save the events you like to your favorites."
   },
   searchHint: {
     ja: "検索してイベントを見つけよう",
@@ -264,6 +264,322 @@ const translations: TranslationDict = {
   registerFirst: {
     ja: "まだアカウントをお持ちでない場合は、登録してください",
     en: "If you don't have an account yet, please register first"
+  },
+  syntheticEvent: {
+    ja: "デモデータ",
+    en: "Demo data"
+  },
+  syntheticEventNotice: {
+    ja: "このイベントはデモ用のサンプルデータであり、実際の開催情報ではありません。",
+    en: "This event is sample demo data, not a real listing."
+  },
+  partialResults: {
+    ja: "一部の期間・地域の検索に失敗したため、結果が不完全な可能性があります。",
+    en: "Some dates or districts could not be searched, so these results may be incomplete."
+  },
+  keyword: {
+    ja: "キーワード",
+    en: "Keyword"
+  },
+  keywordPlaceholder: {
+    ja: "例: ジャズ、花火",
+    en: "e.g. jazz, fireworks"
+  },
+  category: {
+    ja: "カテゴリー",
+    en: "Category"
+  },
+  categoryMusic: {
+    ja: "音楽",
+    en: "Music"
+  },
+  categoryArt: {
+    ja: "アート",
+    en: "Art"
+  },
+  categoryFood: {
+    ja: "グルメ",
+    en: "Food"
+  },
+  categoryMatsuri: {
+    ja: "祭り",
+    en: "Matsuri"
+  },
+  categorySports: {
+    ja: "スポーツ",
+    en: "Sports"
+  },
+  categoryOther: {
+    ja: "その他",
+    en: "Other"
+  },
+  tags: {
+    ja: "タグ",
+    en: "Tags"
+  },
+  freeOnly: {
+    ja: "無料のみ",
+    en: "Free only"
+  },
+  maxPrice: {
+    ja: "料金上限（円）",
+    en: "Max price (¥)"
+  },
+  maxPricePlaceholder: {
+    ja: "例: 3000",
+    en: "e.g. 3000"
+  },
+  admission: {
+    ja: "料金",
+    en: "Admission"
+  },
+  free: {
+    ja: "無料",
+    en: "Free"
+  },
+  priceUnknown: {
+    ja: "料金情報なし",
+    en: "Price not available"
+  },
+  bookingRequired: {
+    ja: "要予約",
+    en: "Booking required"
+  },
+  noBookingRequired: {
+    ja: "予約不要",
+    en: "No booking needed"
+  },
+  getTickets: {
+    ja: "チケット・予約",
+    en: "Tickets & booking"
+  },
+  sessions: {
+    ja: "公演スケジュール",
+    en: "Sessions"
+  },
+  evening: {
+    ja: "夜（17時以降）",
+    en: "Evening (from 5pm)"
+  },
+  weekend: {
+    ja: "土日",
+    en: "Weekend"
+  },
+  sortBy: {
+    ja: "並び替え",
+    en: "Sort by"
+  },
+  sortStart: {
+    ja: "開始日が早い順",
+    en: "Start date"
+  },
+  sortEnd: {
+    ja: "終了が近い順",
+    en: "Ending soonest"
+  },
+  sortTitle: {
+    ja: "タイトル順",
+    en: "Title"
+  },
+  sortDistrict: {
+    ja: "地域順",
+    en: "District"
+  },
+  sortRecent: {
+    ja: "新着順",
+    en: "Recently added"
+  },
+  saveSearch: {
+    ja: "この検索を保存",
+    en: "Save this search"
+  },
+  searchName: {
+    ja: "名前",
+    en: "Name"
+  },
+  rollingDates: {
+    ja: "期間を毎回今日からにずらす",
+    en: "Move the dates to start from today each time"
+  },
+  save: {
+    ja: "保存",
+    en: "Save"
+  },
+  cancel: {
+    ja: "キャンセル",
+    en: "Cancel"
+  },
+  searchSaved: {
+    ja: "検索を保存しました",
+    en: "Search saved"
+  },
+  searchSavedDescription: {
+    ja: "新しいイベントが見つかるとここでお知らせします",
+    en: "We'll let you know here when new events turn up"
+  },
+  savedSearches: {
+    ja: "保存した検索",
+    en: "Saved searches"
+  },
+  newEventsSinceLastVisit: {
+    ja: "前回から新しいイベントが{count}件",
+    en: "{count} new events since your last visit"
+  },
+  deleteSavedSearch: {
+    ja: "保存した検索を削除",
+    en: "Delete saved search"
+  },
+  addToCalendar: {
+    ja: "カレンダーに追加",
+    en: "Add to calendar"
+  },
+  calendarFeed: {
+    ja: "カレンダー購読",
+    en: "Calendar feed"
+  },
+  calendarFeedDescription: {
+    ja: "このリンクをカレンダーアプリで購読すると、お気に入りが自動で同期されます。リンクを知っている人は誰でもお気に入りを見られるので、共有しないでください。",
+    en: "Subscribe to this link in your calendar app to keep your favorites in sync. Anyone with the link can see your favorites, so keep it private."
+  },
+  calendarFeedOff: {
+    ja: "購読リンクはまだありません。",
+    en: "You don't have a feed link yet."
+  },
+  createFeedLink: {
+    ja: "購読リンクを作成",
+    en: "Create feed link"
+  },
+  rotateFeedLink: {
+    ja: "新しいリンクを発行",
+    en: "Reset link"
+  },
+  rotateFeedLinkHint: {
+    ja: "新しいリンクを発行すると、以前のリンクは使えなくなります。",
+    en: "Resetting the link stops the old one from working."
+  },
+  revokeFeedLink: {
+    ja: "リンクを無効にする",
+    en: "Turn off link"
+  },
+  subscribeInCalendar: {
+    ja: "カレンダーで購読",
+    en: "Subscribe in calendar"
+  },
+  copyLink: {
+    ja: "コピー",
+    en: "Copy"
+  },
+  linkCopied: {
+    ja: "リンクをコピーしました",
+    en: "Link copied"
+  },
+  resultsView: {
+    ja: "表示",
+    en: "View"
+  },
+  viewList: {
+    ja: "リスト",
+    en: "List"
+  },
+  viewMonth: {
+    ja: "月",
+    en: "Month"
+  },
+  viewWeek: {
+    ja: "週",
+    en: "Week"
+  },
+  previousWeek: {
+    ja: "前の週",
+    en: "Previous week"
+  },
+  nextWeek: {
+    ja: "次の週",
+    en: "Next week"
+  },
+  eventsOnDay: {
+    ja: "{count}件のイベント",
+    en: "{count} events"
+  },
+  viewMap: {
+    ja: "地図",
+    en: "Map"
+  },
+  mapFilterHint: {
+    ja: "地区をクリックすると、選んだ地区のイベントだけを表示します",
+    en: "Click districts to show only their events"
+  },
+  mapClearHint: {
+    ja: "地区をクリックして追加し、選択中の地区をもう一度クリックすると外します",
+    en: "Click a district to add it, or a selected district again to remove it"
+  },
+  eventsNotOnMap: {
+    ja: "{count}件のイベントは地図上の地区に含まれていません",
+    en: "{count} events are outside the districts on the map"
+  },
+  wholeRegion: {
+    ja: "{name}全域",
+    en: "All of {name}"
+  },
+  clearDistricts: {
+    ja: "選択を解除",
+    en: "Clear selection"
+  },
+  manageDistricts: {
+    ja: "地区の管理",
+    en: "Manage districts"
+  },
+  manageDistrictsDescription: {
+    ja: "地区名の翻訳を編集し、ドラッグまたは矢印ボタンで同じ階層内の表示順を変更できます",
+    en: "Edit district names, and drag districts or use the arrows to reorder them within their level"
+  },
+  districtValue: {
+    ja: "ID（英小文字とハイフン）",
+    en: "ID (lowercase letters and hyphens)"
+  },
+  nameJa: {
+    ja: "日本語名",
+    en: "Japanese name"
+  },
+  nameEn: {
+    ja: "英語名",
+    en: "English name"
+  },
+  parentDistrict: {
+    ja: "親の地区",
+    en: "Parent district"
+  },
+  noParentDistrict: {
+    ja: "なし（地域）",
+    en: "None (region)"
+  },
+  addDistrict: {
+    ja: "地区を追加",
+    en: "Add district"
+  },
+  districtAdded: {
+    ja: "地区を追加しました",
+    en: "District added"
+  },
+  districtSaved: {
+    ja: "地区名を保存しました",
+    en: "District names saved"
+  },
+  deleteDistrict: {
+    ja: "地区を削除",
+    en: "Delete district"
+  },
+  moveUp: {
+    ja: "上へ移動",
+    en: "Move up"
+  },
+  moveDown: {
+    ja: "下へ移動",
+    en: "Move down"
+  },
+  dragToReorder: {
+    ja: "ドラッグして並べ替え",
+    en: "Drag to reorder"
   }
 };
 
@@ -277,6 +593,16 @@ interface LanguageContextType {
 // Create the context
 const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
 
+// Translation key for an event category label (music → categoryMusic)
+export function categoryLabelKey(category: string): string {
+  return `category${category.charAt(0).toUpperCase()}${category.slice(1)}`;
+}
+
+// Translation key for a search result ordering (end → sortEnd)
+export function sortLabelKey(sort: string): string {
+  return `sort${sort.charAt(0).toUpperCase()}${sort.slice(1)}`;
+}
+
 // Provider component
 export function LanguageProvider({ children }: { children: ReactNode }) {
   const [language, setLanguage] = useState<Language>("ja");
@@ -0,0 +1,51 @@
+import { EventCategory, SearchParams, eventCategories } from "@shared/schema";
+
+const isoDate = /^\d{4}-\d{2}-\d{2}$/;
+
+// Encode a search as a query string for the Home page URL
+export function searchParamsToQuery(params: SearchParams): string {
+  const query = new URLSearchParams({ dateFrom: params.dateFrom, dateTo: params.dateTo });
+
+  if (params.district?.length) query.set("district", params.district.join(","));
+  if (params.q) query.set("q", params.q);
+  if (params.category?.length) query.set("category", params.category.join(","));
+  if (params.free) query.set("free", "1");
+  if (params.maxPrice !== undefined) query.set("maxPrice", String(params.maxPrice));
+  if (params.evening) query.set("evening", "1");
+  if (params.weekend) query.set("weekend", "1");
+
+  return query.toString();
+}
+
+// Decode a search from the Home page query string. Returns null unless the URL
+// holds a valid date range; unknown or malformed filters are dropped.
+export function searchParamsFromQuery(search: string): SearchParams | null {
+  const query = new URLSearchParams(search);
+  const dateFrom = query.get("dateFrom") ?? "";
+  const dateTo = query.get("dateTo") ?? "";
+
+  if (!isoDate.test(dateFrom) || !isoDate.test(dateTo) || dateFrom > dateTo) {
+    return null;
+  }
+
+  const category = (query.get("category") ?? "")
+    .split(",")
+    .filter((value): value is EventCategory => (eventCategories as readonly string[]).includes(value));
+  const district = (query.get("district") ?? "")
+    .split(",")
+    .filter((value) => value && value !== "all");
+  const maxPrice = query.get("maxPrice") ? Number(query.get("maxPrice")) : NaN;
+  const flag = (name: string) => query.get(name) === "1" || query.get(name) === "true" || undefined;
+
+  return {
+    dateFrom,
+    dateTo,
+    district: district.length > 0 ? Array.from(new Set(district)).sort() : undefined,
+    q: query.get("q")?.trim() || undefined,
+    category: category.length > 0 ? Array.from(new Set(category)).sort() : undefined,
+    free: flag("free"),
+    maxPrice: Number.isInteger(maxPrice) && maxPrice >= 0 ? maxPrice : undefined,
+    evening: flag("evening"),
+    weekend: flag("weekend"),
+  };
+}
@@ -0,0 +1,340 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { District, UpdateDistrict } from "@shared/schema";
+import { useAuth } from "@/context/AuthContext";
+import { useLanguage } from "@/lib/i18n";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { flattenDistricts, moveDistrict } from "@/lib/districts";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowLeft, ArrowUp, GripVertical, Plus, Trash2 } from "lucide-react";
+
+// Select has no empty item value, so regions (empty parentArea) use this instead
+const NO_PARENT = "none";
+
+interface DistrictRowProps {
+  district: District;
+  depth: number;
+  previous?: District; // siblings the district can swap places with
+  next?: District;
+  dragging: boolean;
+  onMove: (targetId: number) => void;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+  onDrop: () => void;
+  canDrop: boolean; // whether the dragged district is a sibling
+}
+
+// One district with its translations, which are saved separately from the order
+function DistrictRow({ district, depth, previous, next, dragging, onMove, onDragStart, onDragEnd, onDrop, canDrop }: DistrictRowProps) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [nameJa, setNameJa] = useState(district.nameJa);
+  const [nameEn, setNameEn] = useState(district.nameEn);
+
+  useEffect(() => {
+    setNameJa(district.nameJa);
+    setNameEn(district.nameEn);
+  }, [district.nameJa, district.nameEn]);
+
+  const onError = (error: Error) => {
+    toast({
+      title: t("error"),
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async (changes: UpdateDistrict) => apiRequest("PATCH", `/api/districts/${district.id}`, changes),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/districts"] });
+      toast({ title: t("districtSaved") });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => apiRequest("DELETE", `/api/districts/${district.id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/districts"] });
+    },
+    onError,
+  });
+
+  const changed = nameJa.trim() !== district.nameJa || nameEn.trim() !== district.nameEn;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateMutation.mutate({ nameJa: nameJa.trim(), nameEn: nameEn.trim() });
+  };
+
+  return (
+    <li
+      className={cn("flex items-center gap-2 rounded-md border bg-white p-2", dragging && "opacity-50")}
+      style={{ marginLeft: `${depth * 1.5}rem` }}
+      onDragOver={(e) => {
+        if (canDrop) {
+          e.preventDefault();
+        }
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        onDrop();
+      }}
+    >
+      <span
+        draggable
+        className="cursor-grab text-gray-400"
+        title={t("dragToReorder")}
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = "move";
+          onDragStart();
+        }}
+        onDragEnd={onDragEnd}
+      >
+        <GripVertical className="h-4 w-4" />
+      </span>
+      <div className="flex flex-col">
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-5 w-5"
+          aria-label={t("moveUp")}
+          disabled={!previous}
+          onClick={() => previous && onMove(previous.id)}
+        >
+          <ArrowUp className="h-3 w-3" />
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-5 w-5"
+          aria-label={t("moveDown")}
+          disabled={!next}
+          onClick={() => next && onMove(next.id)}
+        >
+          <ArrowDown className="h-3 w-3" />
+        </Button>
+      </div>
+      <code className="w-40 truncate text-xs text-gray-500" title={district.value}>{district.value}</code>
+      <form onSubmit={handleSubmit} className="flex flex-1 flex-wrap items-center gap-2">
+        <Input
+          aria-label={t("nameJa")}
+          value={nameJa}
+          onChange={(e) => setNameJa(e.target.value)}
+          className="h-8 w-40"
+          required
+        />
+        <Input
+          aria-label={t("nameEn")}
+          value={nameEn}
+          onChange={(e) => setNameEn(e.target.value)}
+          className="h-8 w-48"
+          required
+        />
+        <Button type="submit" size="sm" variant="outline" disabled={!changed || updateMutation.isPending}>
+          {t("save")}
+        </Button>
+      </form>
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        aria-label={t("deleteDistrict")}
+        title={t("deleteDistrict")}
+        onClick={() => deleteMutation.mutate()}
+        disabled={deleteMutation.isPending}
+      >
+        <Trash2 className="h-4 w-4 text-gray-500" />
+      </Button>
+    </li>
+  );
+}
+
+// Admin page for the district hierarchy: translations, order, and adding or
+// removing districts
+export default function AdminDistricts() {
+  const { t, language } = useLanguage();
+  const { user, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [_, setLocation] = useLocation();
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  const [value, setValue] = useState("");
+  const [nameJa, setNameJa] = useState("");
+  const [nameEn, setNameEn] = useState("");
+  const [parentArea, setParentArea] = useState(NO_PARENT);
+
+  // 管理者以外はトップページへ
+  useEffect(() => {
+    if (!authLoading && !user?.isAdmin) {
+      setLocation("/");
+    }
+  }, [user, authLoading, setLocation]);
+
+  const { data: districts = [], isLoading } = useQuery<District[]>({
+    queryKey: ["/api/districts"],
+    enabled: !!user?.isAdmin,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: t("error"),
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const reorderMutation = useMutation({
+    mutationFn: async (ids: number[]) => {
+      const res = await apiRequest("PUT", "/api/districts/order", { ids });
+      return res.json() as Promise<District[]>;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/districts"], data);
+    },
+    onError,
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/districts", {
+      value: value.trim(),
+      nameJa: nameJa.trim(),
+      nameEn: nameEn.trim(),
+      parentArea: parentArea === NO_PARENT ? "" : parentArea,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/districts"] });
+      toast({ title: t("districtAdded") });
+      setValue("");
+      setNameJa("");
+      setNameEn("");
+    },
+    onError,
+  });
+
+  if (!user?.isAdmin) {
+    return null; // Will redirect in useEffect
+  }
+
+  const nodes = flattenDistricts(districts);
+  const dragged = districts.find((district) => district.id === draggedId);
+
+  const move = (id: number, targetId: number) => {
+    const ids = moveDistrict(districts, id, targetId);
+    if (ids && id !== targetId) {
+      reorderMutation.mutate(ids);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    addMutation.mutate();
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+      <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+        <div className="flex justify-between items-center mb-2">
+          <h1 className="text-2xl font-bold text-gray-800">
+            {t("manageDistricts")}
+          </h1>
+          <Button
+            variant="ghost"
+            className="flex items-center text-primary hover:text-indigo-700"
+            onClick={() => setLocation("/")}
+          >
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            {t("backToSearch")}
+          </Button>
+        </div>
+        <p className="text-sm text-gray-500 mb-6">{t("manageDistrictsDescription")}</p>
+
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 gap-4 md:grid-cols-5 md:items-end mb-6">
+          <div>
+            <Label htmlFor="districtValue">{t("districtValue")}</Label>
+            <Input
+              id="districtValue"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder="setagaya"
+              pattern="[a-z0-9]+(-[a-z0-9]+)*"
+              className="mt-1"
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="districtNameJa">{t("nameJa")}</Label>
+            <Input id="districtNameJa" value={nameJa} onChange={(e) => setNameJa(e.target.value)} className="mt-1" required />
+          </div>
+          <div>
+            <Label htmlFor="districtNameEn">{t("nameEn")}</Label>
+            <Input id="districtNameEn" value={nameEn} onChange={(e) => setNameEn(e.target.value)} className="mt-1" required />
+          </div>
+          <div>
+            <Label htmlFor="districtParent">{t("parentDistrict")}</Label>
+            <Select value={parentArea} onValueChange={setParentArea}>
+              <SelectTrigger id="districtParent" className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PARENT}>{t("noParentDistrict")}</SelectItem>
+                {nodes.map(({ district, depth }) => (
+                  <SelectItem key={district.id} value={district.value}>
+                    {"　".repeat(depth)}{language === "ja" ? district.nameJa : district.nameEn}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="submit" disabled={addMutation.isPending}>
+            <Plus className="mr-2 h-4 w-4" />
+            {t("addDistrict")}
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <ul className={cn("space-y-1", reorderMutation.isPending && "opacity-75")}>
+            {nodes.map(({ district, depth }) => {
+              const siblings = nodes
+                .map((node) => node.district)
+                .filter((item) => item.parentArea === district.parentArea);
+              const index = siblings.indexOf(district);
+              return (
+                <DistrictRow
+                  key={district.id}
+                  district={district}
+                  depth={depth}
+                  previous={siblings[index - 1]}
+                  next={siblings[index + 1]}
+                  dragging={draggedId === district.id}
+                  canDrop={!!dragged && dragged.parentArea === district.parentArea}
+                  onMove={(targetId) => move(district.id, targetId)}
+                  onDragStart={() => setDraggedId(district.id)}
+                  onDragEnd={() => setDraggedId(null)}
+                  onDrop={() => {
+                    if (draggedId !== null) {
+                      move(draggedId, district.id);
+                    }
+                    setDraggedId(null);
+                  }}
+                />
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,19 +1,41 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useRoute, useLocation } from "wouter";
 import { Event } from "@shared/schema";
-import { useLanguage } from "@/lib/i18n";
+import { useLanguage, categoryLabelKey } from "@/lib/i18n";
+import { formatEventSchedule, formatSession } from "@/lib/eventTime";
 import { useAuth } from "@/context/AuthContext";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
-import { Calendar, MapPin, Heart, ArrowLeft } from "lucide-react";
-import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Calendar, CalendarPlus, Clock, MapPin, Heart, ArrowLeft, Ticket, ExternalLink } from "lucide-react";
+import { useState, useEffect } from "react";
 import { useToast } from "@/hooks/use-toast";
 
+// Admission as shown to the user: "Free", a price or price range, or unknown
+function formatAdmission(event: Event, language: string, t: (key: string) => string): string {
+  if (event.isFree) {
+    return t("free");
+  }
+  if (event.priceMin === null && event.priceMax === null) {
+    return t("priceUnknown");
+  }
+
+  const format = new Intl.NumberFormat(language === "ja" ? "ja-JP" : "en-US", {
+    style: "currency",
+    currency: event.currency,
+    maximumFractionDigits: 0,
+  }).format;
+  if (event.priceMin !== null && event.priceMax !== null && event.priceMin !== event.priceMax) {
+    return `${format(event.priceMin)} – ${format(event.priceMax)}`;
+  }
+  return format((event.priceMin ?? event.priceMax)!);
+}
+
 export default function EventDetail() {
   const [_, setLocation] = useLocation();
   const [match, params] = useRoute("/event/:id");
   const { t, language } = useLanguage();
-  const { user } = useAuth();
+  const { user, promptLogin } = useAuth();
   const { toast } = useToast();
   const [isFavorite, setIsFavorite] = useState(false);
 
@@ -21,13 +43,15 @@ export default function EventDetail() {
   const { data: event, isLoading, error } = useQuery<Event>({
     queryKey: [`/api/events/${params?.id}`],
     enabled: !!params?.id,
-    onSuccess: (data) => {
-      if (user && data) {
-        checkIfFavorite(data.id);
-      }
-    }
   });
 
+  // Check favorite status once the event has loaded
+  useEffect(() => {
+    if (user && event) {
+      checkIfFavorite(event.id);
+    }
+  }, [user, event?.id]);
+
   // Query to check if event is favorited
   const checkIfFavorite = async (eventId: string) => {
     try {
@@ -114,38 +138,95 @@ export default function EventDetail() {
           <Button
             variant="ghost"
             className="absolute top-4 left-4 bg-white bg-opacity-70 hover:bg-opacity-100 text-gray-800"
-            onClick={() => setLocation('/')}
+            onClick={() => window.history.length > 1 ? window.history.back() : setLocation('/')}
           >
             <ArrowLeft className="mr-2 h-4 w-4" />
             {t("backToSearch")}
           </Button>
-          {user && (
-            <Button
-              variant="ghost"
-              className={`absolute top-4 right-4 p-2 rounded-full bg-white bg-opacity-70 hover:bg-opacity-100 ${isFavorite ? 'text-pink-500' : 'text-gray-400 hover:text-pink-500'}`}
-              onClick={() => toggleFavoriteMutation.mutate()}
-              disabled={toggleFavoriteMutation.isPending}
-            >
-              <Heart className="h-6 w-6" fill={isFavorite ? "currentColor" : "none"} />
-            </Button>
-          )}
+          <Button
+            variant="ghost"
+            className={`absolute top-4 right-4 p-2 rounded-full bg-white bg-opacity-70 hover:bg-opacity-100 ${isFavorite ? 'text-pink-500' : 'text-gray-400 hover:text-pink-500'}`}
+            onClick={() => user ? toggleFavoriteMutation.mutate() : promptLogin("login")}
+            disabled={toggleFavoriteMutation.isPending}
+          >
+            <Heart className="h-6 w-6" fill={isFavorite ? "currentColor" : "none"} />
+          </Button>
         </div>
         
         <div className="p-6">
           <h1 className="text-3xl font-bold text-gray-800 mb-4">{title}</h1>
           
+          {event.synthetic && (
+            <div className="flex items-center gap-2 mb-4 text-sm text-gray-600">
+              <Badge variant="secondary">{t("syntheticEvent")}</Badge>
+              <span>{t("syntheticEventNotice")}</span>
+            </div>
+          )}
+          
           <div className="flex flex-wrap gap-y-3 gap-x-6 mb-6">
             <div className="flex items-center text-gray-600">
               <Calendar className="mr-2 h-5 w-5 text-gray-400" />
               <span>
-                {event.startDate}
-                {event.endDate && ` - ${event.endDate}`}
+                {formatEventSchedule(event)}
               </span>
             </div>
             <div className="flex items-center text-gray-600">
               <MapPin className="mr-2 h-5 w-5 text-gray-400" />
               <span>{event.location}</span>
             </div>
+            <div className="flex items-center text-gray-600">
+              <Ticket className="mr-2 h-5 w-5 text-gray-400" />
+              <span className="sr-only">{t("admission")}:</span>
+              <span>{formatAdmission(event, language, t)}</span>
+              {event.bookingRequired !== null && (
+                <Badge variant="outline" className="ml-2">
+                  {t(event.bookingRequired ? "bookingRequired" : "noBookingRequired")}
+                </Badge>
+              )}
+            </div>
+          </div>
+          
+          <div className="flex flex-wrap gap-2 mb-6">
+            <Button asChild variant="outline">
+              <a href={`/api/events/${encodeURIComponent(event.id)}.ics?lang=${language}`} download>
+                <CalendarPlus className="mr-2 h-4 w-4" />
+                {t("addToCalendar")}
+              </a>
+            </Button>
+            {event.ticketUrl && (
+              <Button asChild variant="outline">
+                <a href={event.ticketUrl} target="_blank" rel="noopener noreferrer">
+                  <ExternalLink className="mr-2 h-4 w-4" />
+                  {t("getTickets")}
+                </a>
+              </Button>
+            )}
+          </div>
+          
+          {event.sessions.length > 0 && (
+            <div className="mb-6">
+              <h2 className="flex items-center text-lg font-semibold text-gray-800 mb-2">
+                <Clock className="mr-2 h-5 w-5 text-gray-400" />
+                {t("sessions")}
+              </h2>
+              <ul className="space-y-1 text-gray-600">
+                {event.sessions.map((session) => (
+                  <li key={`${session.date} ${session.startTime}`}>{formatSession(session)}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          
+          <div className="flex flex-wrap items-center gap-2 mb-6">
+            <Badge>{t(categoryLabelKey(event.category))}</Badge>
+            {event.tags.length > 0 && (
+              <>
+                <span className="sr-only">{t("tags")}:</span>
+                {event.tags.map((tag) => (
+                  <Badge key={tag} variant="outline">#{tag}</Badge>
+                ))}
+              </>
+            )}
           </div>
           
           <div className="prose max-w-none mb-8">
@@ -6,19 +6,20 @@ import { Event } from "@shared/schema";
 import { useAuth } from "@/context/AuthContext";
 import { useLanguage } from "@/lib/i18n";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, Heart } from "lucide-react";
+import { ArrowLeft, CalendarPlus, Heart } from "lucide-react";
 
 export default function Favorites() {
-  const { t } = useLanguage();
-  const { user } = useAuth();
+  const { t, language } = useLanguage();
+  const { user, isLoading: authLoading, promptLogin } = useAuth();
   const [_, setLocation] = useLocation();
 
-  // Redirect if not logged in
+  // Redirect if not logged in, asking the visitor to log in
   useEffect(() => {
-    if (!user) {
+    if (!authLoading && !user) {
       setLocation("/");
+      promptLogin();
     }
-  }, [user, setLocation]);
+  }, [user, authLoading, setLocation, promptLogin]);
 
   // Query for favorites
   const { data: favorites, isLoading, error } = useQuery<Event[]>({
@@ -37,14 +38,24 @@ export default function Favorites() {
           <h1 className="text-2xl font-bold text-gray-800">
             {t("favoriteEvents")}
           </h1>
-          <Button
-            variant="ghost"
-            className="flex items-center text-primary hover:text-indigo-700"
-            onClick={() => setLocation("/")}
-          >
-            <ArrowLeft className="mr-1 h-4 w-4" />
-            {t("backToSearch")}
-          </Button>
+          <div className="flex items-center gap-2">
+            {favorites && favorites.length > 0 && (
+              <Button asChild variant="outline">
+                <a href={`/api/favorites.ics?lang=${language}`} download>
+                  <CalendarPlus className="mr-2 h-4 w-4" />
+                  {t("addToCalendar")}
+                </a>
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              className="flex items-center text-primary hover:text-indigo-700"
+              onClick={() => setLocation("/")}
+            >
+              <ArrowLeft className="mr-1 h-4 w-4" />
+              {t("backToSearch")}
+            </Button>
+          </div>
         </div>
 
         {isLoading ? (
@@ -1,17 +1,19 @@
-import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useState, useMemo } from "react";
+import { useLocation, useSearch } from "wouter";
 import SearchForm from "@/components/SearchForm";
 import SearchResults from "@/components/SearchResults";
-import LoginModal from "@/components/LoginModal";
-import { Event, SearchParams } from "@shared/schema";
+import SavedSearches from "@/components/SavedSearches";
+import SaveSearchDialog from "@/components/SaveSearchDialog";
+import { EventSort, SearchParams } from "@shared/schema";
 import { useLanguage } from "@/lib/i18n";
 import { useAuth } from "@/context/AuthContext";
+import { searchParamsFromQuery, searchParamsToQuery } from "@/lib/searchUrl";
 import { Button } from "@/components/ui/button";
 import { Loader2, Search } from "lucide-react";
 
 export default function Home() {
   const { t } = useLanguage();
-  const { user, isLoading: isAuthLoading } = useAuth();
+  const { user, isLoading: isAuthLoading, updatePreferences, promptLogin } = useAuth();
   // 東京時間で現在の日付を取得
   const getTodayInTokyo = () => {
     const now = new Date();
@@ -20,38 +22,50 @@ export default function Home() {
     return tokyoTime.toISOString().split('T')[0];
   };
   
-  const today = getTodayInTokyo();
-  const tomorrow = new Date(new Date(today).getTime() + 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-  
-  const [searchParams, setSearchParams] = useState<SearchParams>({
-    dateFrom: today, // 東京の今日
-    dateTo: tomorrow, // 東京の明日
-  });
-  const [isLoginModalOpen, setIsLoginModalOpen] = useState(false);
-  const [isRegistering, setIsRegistering] = useState(false);
+  const defaultParams = useMemo<SearchParams>(() => {
+    const today = getTodayInTokyo();
+    const tomorrow = new Date(new Date(today).getTime() + 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    return {
+      dateFrom: today, // 東京の今日
+      dateTo: tomorrow, // 東京の明日
+    };
+  }, []);
+
+  // 検索条件はURLのクエリ文字列に保存する（ブックマーク・共有・戻るボタンに対応）
+  const search = useSearch();
+  const [, navigate] = useLocation();
+  const urlParams = useMemo(() => searchParamsFromQuery(search), [search]);
+  const searchParams = urlParams ?? defaultParams;
+
+  // 有効な検索条件がURLにあれば検索を実行する
+  const searchExecuted = urlParams !== null;
 
-  // 検索が実行されたかどうかを追跡するフラグ
-  const [searchExecuted, setSearchExecuted] = useState(false);
-  
-  // イベント検索クエリ - ユーザーがログインしていて、検索が実行された場合のみ有効
-  const { data: events, isLoading: isEventsLoading, error } = useQuery<Event[]>({
-    queryKey: [
-      '/api/events', 
-      'dateFrom', searchParams.dateFrom, 
-      'dateTo', searchParams.dateTo, 
-      'district', searchParams.district
-    ],
-    enabled: !!user && !!searchParams && searchExecuted,
-  });
 
+  // 並び順はログインユーザーごとに保存される（未ログインの場合はこの画面のみ）
+  const [anonymousSort, setAnonymousSort] = useState<EventSort>("start");
+  const sort = user?.preferredSort ?? anonymousSort;
+  
   const handleSearch = (newParams: SearchParams) => {
-    setSearchParams(newParams);
-    setSearchExecuted(true); // 検索が実行されたことをマーク
+    navigate(`/?${searchParamsToQuery(newParams)}`);
+  };
+
+  // 保存する検索条件（ダイアログ表示中のみ設定される）
+  const [searchToSave, setSearchToSave] = useState<SearchParams | null>(null);
+
+  const handleSave = (params: SearchParams) => {
+    if (user) {
+      setSearchToSave(params);
+    } else {
+      promptLogin("login");
+    }
   };
 
-  const handleOpenLogin = (registerMode = false) => {
-    setIsRegistering(registerMode);
-    setIsLoginModalOpen(true);
+  const handleSortChange = (newSort: EventSort) => {
+    if (user) {
+      updatePreferences({ preferredSort: newSort });
+    } else {
+      setAnonymousSort(newSort);
+    }
   };
 
   return (
@@ -61,23 +75,49 @@ export default function Home() {
         <div className="flex justify-center items-center min-h-[50vh]">
           <Loader2 className="h-8 w-8 animate-spin text-primary" />
         </div>
-      ) : user ? (
-        // Authenticated user view - show search and results
+      ) : (
         <>
+          {/* Welcome banner - ログインしていなくても検索できる */}
+          {!user && (
+            <div className="bg-white rounded-lg shadow-md p-6 mb-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div>
+                <h2 className="text-xl font-bold text-primary mb-1">
+                  {t("welcomeToEventFinder")}
+                </h2>
+                <p className="text-gray-600">
+                  {t("welcomeDescription")}
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <Button onClick={() => promptLogin("login")}>
+                  {t("login")}
+                </Button>
+                <Button onClick={() => promptLogin("register")} variant="outline">
+                  {t("register")}
+                </Button>
+              </div>
+            </div>
+          )}
+
           {/* Search Interface */}
           <div className="bg-white rounded-lg shadow-md p-6 mb-6">
             <h1 className="text-2xl font-bold text-gray-800 mb-6">
               {t("findEvents")}
             </h1>
-            <SearchForm onSearch={handleSearch} initialValues={searchParams} />
+            <SearchForm onSearch={handleSearch} onSave={handleSave} initialValues={searchParams} />
           </div>
 
+          {/* Saved searches - ログインユーザーのみ */}
+          {user && <SavedSearches onSelect={handleSearch} />}
+
           {/* Search Results - 検索が実行された場合のみ表示 */}
           {searchExecuted ? (
             <SearchResults 
-              events={events || []} 
-              isLoading={isEventsLoading} 
-              error={error instanceof Error ? error : undefined}
+              searchParams={searchParams}
+              enabled={searchExecuted}
+              sort={sort}
+              onSortChange={handleSortChange}
+              onDistrictSelect={(district) => handleSearch({ ...searchParams, district })}
             />
           ) : (
             <div className="bg-white rounded-lg shadow-md p-6 text-center py-12">
@@ -91,40 +131,9 @@ export default function Home() {
             </div>
           )}
         </>
-      ) : (
-        // Unauthenticated user view - show welcome screen
-        <div className="flex flex-col items-center justify-center min-h-[60vh] text-center">
-          <h1 className="text-3xl font-bold text-primary mb-6">
-            {t("welcomeToEventFinder")}
-          </h1>
-          <p className="text-xl text-gray-600 max-w-2xl mb-8">
-            {t("welcomeDescription")}
-          </p>
-          <div className="flex gap-4">
-            <Button 
-              onClick={() => handleOpenLogin(false)}
-              className="text-lg px-6 py-5"
-            >
-              {t("login")}
-            </Button>
-            <Button 
-              onClick={() => handleOpenLogin(true)}
-              variant="outline" 
-              className="text-lg px-6 py-5"
-            >
-              {t("register")}
-            </Button>
-          </div>
-        </div>
       )}
 
-      {/* Login/Register Modal */}
-      <LoginModal 
-        isOpen={isLoginModalOpen} 
-        isRegistering={isRegistering}
-        onClose={() => setIsLoginModalOpen(false)}
-        onSwitchMode={(mode) => setIsRegistering(mode === 'register')}
-      />
+      <SaveSearchDialog params={searchToSave} onClose={() => setSearchToSave(null)} />
     </div>
   );
 }
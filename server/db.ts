@@ -0,0 +1,30 @@
+import { Pool as NeonPool, neonConfig } from "@neondatabase/serverless";
+import { drizzle as drizzleNeon } from "drizzle-orm/neon-serverless";
+import { drizzle as drizzlePg } from "drizzle-orm/node-postgres";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import pg from "pg";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// Any drizzle Postgres database (neon, node-postgres, pglite) carrying our schema
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// Neon is reached over websockets with its serverless driver
+function isNeonUrl(connectionString: string): boolean {
+  try {
+    return new URL(connectionString).hostname.endsWith(".neon.tech");
+  } catch {
+    return false;
+  }
+}
+
+// Create a drizzle database connected to the given Postgres URL: Neon through
+// its serverless driver, any other Postgres (local, Docker, hosted) through node-postgres
+export function createDb(connectionString: string): Database {
+  if (isNeonUrl(connectionString)) {
+    return drizzleNeon({ client: new NeonPool({ connectionString }), schema });
+  }
+  return drizzlePg({ client: new pg.Pool({ connectionString }), schema });
+}
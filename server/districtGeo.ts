@@ -0,0 +1,28 @@
+import { DistrictGeoCollection } from "@shared/schema";
+import fs from "fs/promises";
+import path from "path";
+
+// Simplified district boundaries bundled with the app, so the map view needs
+// no external tile or geocoding service
+const GEO_PATH = path.resolve(process.cwd(), "server", "geo", "districts.geojson");
+
+let cached: Promise<DistrictGeoCollection> | null = null;
+
+async function load(): Promise<DistrictGeoCollection> {
+  const data = JSON.parse(await fs.readFile(GEO_PATH, "utf8"));
+  if (data?.type !== "FeatureCollection" || !Array.isArray(data.features)) {
+    throw new Error(`District boundaries ${GEO_PATH} are not a GeoJSON FeatureCollection`);
+  }
+  return data;
+}
+
+// The boundaries never change while the server runs, so read them once
+export function getDistrictGeo(): Promise<DistrictGeoCollection> {
+  if (!cached) {
+    cached = load().catch((error) => {
+      cached = null; // retry on the next request
+      throw error;
+    });
+  }
+  return cached;
+}
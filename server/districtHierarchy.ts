@@ -0,0 +1,68 @@
+import { District } from "@shared/schema";
+
+// Districts form a tree through parentArea, which holds the parent's value:
+// region (23区, 多摩地域) → area → ward or city. Regions have an empty parentArea.
+
+// Direct children of a district, in display order
+export function childDistricts(districts: District[], value: string): District[] {
+  return districts
+    .filter((district) => district.parentArea === value)
+    .sort((a, b) => a.displayOrder - b.displayOrder);
+}
+
+// The districts and every district below them. Events tagged with any of
+// these values are in one of the districts.
+export function districtScope(districts: District[], values: string[]): string[] {
+  const scope = Array.from(new Set(values));
+  for (let index = 0; index < scope.length; index++) {
+    for (const child of childDistricts(districts, scope[index])) {
+      // Guard against a parentArea cycle introduced by hand-edited rows
+      if (!scope.includes(child.value)) {
+        scope.push(child.value);
+      }
+    }
+  }
+  return scope;
+}
+
+// Districts to send to the event provider as separate sub-queries. Searching
+// all of Tokyo or a whole region asks per area, which keeps each answer
+// focused without one request per ward; an area or a ward is asked as is.
+// A district inside another chosen one, e.g. a ward next to its area, is not
+// asked separately.
+export function searchDistricts(districts: District[], values: string[] = []): string[] {
+  const requested = values.length > 0
+    ? values
+    : childDistricts(districts, "").map((region) => region.value);
+
+  const expanded = Array.from(new Set(requested.flatMap((value) => {
+    const isRegion = districts.some((district) => district.value === value && district.parentArea === "");
+    const areas = isRegion ? childDistricts(districts, value) : [];
+    return areas.length > 0 ? areas.map((area) => area.value) : [value];
+  })));
+
+  return expanded.filter((value) =>
+    !expanded.some((other) => other !== value && districtScope(districts, [other]).includes(value))
+  );
+}
+
+// Values among `values` that are not districts
+export function unknownDistricts(districts: District[], values: string[] = []): string[] {
+  return values.filter((value) => !districts.some((district) => district.value === value));
+}
+
+// Why a district cannot have this parent, or null if it can. The parent must be
+// empty (a region) or an existing district that is not the district itself or
+// one of the districts below it.
+export function parentAreaProblem(districts: District[], value: string, parentArea: string): string | null {
+  if (parentArea === "") {
+    return null;
+  }
+  if (!districts.some((district) => district.value === parentArea)) {
+    return `Unknown parentArea: ${parentArea}`;
+  }
+  if (districtScope(districts, [value]).includes(parentArea)) {
+    return "A district cannot be placed inside itself";
+  }
+  return null;
+}
@@ -0,0 +1,40 @@
+import { EventCategory } from "@shared/schema";
+import { normalizeSearchText } from "./textSearch";
+
+// Keywords suggesting each category. Japanese keywords match anywhere in the
+// text (katakana and hiragana are folded together); English keywords match
+// whole words only, so "art" does not match "party".
+const categoryKeywords: [Exclude<EventCategory, "other">, string[]][] = [
+  ["matsuri", ["祭", "まつり", "神輿", "盆踊", "花火", "縁日", "酉の市", "festival", "matsuri", "mikoshi", "fireworks", "bon odori"]],
+  ["music", ["ライブ", "コンサート", "音楽", "ジャズ", "演奏", "オーケストラ", "concert", "live", "jazz", "orchestra", "music", "dj"]],
+  ["art", ["美術", "展覧会", "展示", "ギャラリー", "アート", "写真展", "個展", "museum", "exhibition", "gallery", "art", "photography"]],
+  ["food", ["グルメ", "フード", "食", "ラーメン", "酒", "ビール", "マルシェ", "food", "gourmet", "ramen", "beer", "sake", "tasting"]],
+  ["sports", ["マラソン", "スポーツ", "試合", "相撲", "野球", "サッカー", "marathon", "sports", "sumo", "baseball", "football", "soccer"]],
+];
+
+const categoryMatchers = categoryKeywords.map(([category, keywords]) => {
+  const terms = keywords.map(normalizeSearchText);
+  const japanese = terms.filter((term) => !/^[a-z ]+$/.test(term));
+  const english = terms.filter((term) => /^[a-z ]+$/.test(term));
+  const words = english.length > 0 ? new RegExp(`\\b(?:${english.join("|")})\\b`) : null;
+
+  return {
+    category,
+    matches: (text: string) => japanese.some((term) => text.includes(term)) || (words?.test(text) ?? false),
+  };
+});
+
+// Guess a category from the event text, falling back to "other".
+// Categories are checked in order, so a fireworks festival with live music is a matsuri.
+export function classifyEvent(event: {
+  titleJa: string;
+  titleEn: string;
+  descriptionJa: string;
+  descriptionEn: string;
+}): EventCategory {
+  const text = normalizeSearchText(
+    [event.titleJa, event.titleEn, event.descriptionJa, event.descriptionEn].join(" ")
+  );
+
+  return categoryMatchers.find((matcher) => matcher.matches(text))?.category ?? "other";
+}
@@ -0,0 +1,86 @@
+import { Event, EventAlias } from "@shared/schema";
+import crypto from "crypto";
+
+const ignoredCharacters = new RegExp("[\\s\\p{P}\\p{S}]", "gu");
+
+// Fold width, case, whitespace and punctuation so trivially different
+// spellings of the same title or venue compare equal
+function normalizeForId(value: string): string {
+  return value
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(ignoredCharacters, "");
+}
+
+// Derive a deterministic event ID from normalised title, venue and start date
+export function canonicalEventId(event: Pick<Event, "titleJa" | "titleEn" | "location" | "startDate">): string {
+  const key = [
+    normalizeForId(event.titleJa || event.titleEn),
+    normalizeForId(event.location),
+    event.startDate,
+  ].join("|");
+
+  return `ev-${crypto.createHash("sha1").update(key).digest("hex").substring(0, 16)}`;
+}
+
+// Whether a record says anything about admission: free or not, or a price
+function hasAdmission(event: Event): boolean {
+  return event.isFree !== null || event.priceMin !== null || event.priceMax !== null;
+}
+
+// Merge two records of the same event, preferring non-empty values from the first.
+// false and 0 are real values (a free event has priceMin 0), only null and "" are empty.
+export function mergeEvents(primary: Event, duplicate: Event): Event {
+  const merged = { ...primary };
+  const isEmpty = (value: unknown) => value === null || value === undefined || value === "";
+
+  for (const key of Object.keys(duplicate) as (keyof Event)[]) {
+    if (isEmpty(merged[key]) && !isEmpty(duplicate[key])) {
+      (merged as Record<keyof Event, unknown>)[key] = duplicate[key];
+    }
+  }
+
+  // Admission fields describe one price, so they come together from one record;
+  // mixing them could turn a paid event into a free one with a price
+  const admission = hasAdmission(primary) || !hasAdmission(duplicate) ? primary : duplicate;
+  merged.isFree = admission.isFree;
+  merged.priceMin = admission.priceMin;
+  merged.priceMax = admission.priceMax;
+  merged.currency = admission.currency;
+
+  // Keep the widest date range
+  if (duplicate.endDate && (!merged.endDate || duplicate.endDate > merged.endDate)) {
+    merged.endDate = duplicate.endDate;
+  }
+
+  // A specific category beats "other"; tags from both are kept, sessions from
+  // whichever record lists them
+  if (merged.category === "other") {
+    merged.category = duplicate.category;
+  }
+  merged.tags = Array.from(new Set([...merged.tags, ...duplicate.tags])).slice(0, 10);
+  if (merged.sessions.length === 0) {
+    merged.sessions = duplicate.sessions;
+  }
+
+  return merged;
+}
+
+// Re-key events by canonical ID and merge duplicates. Returns the merged events
+// plus an alias for every provider-assigned ID that differs from its canonical ID.
+export function canonicalizeEvents(events: Event[]): { events: Event[]; aliases: EventAlias[] } {
+  const byId = new Map<string, Event>();
+  const aliases: EventAlias[] = [];
+
+  for (const event of events) {
+    const id = canonicalEventId(event);
+    if (event.id !== id) {
+      aliases.push({ alias: event.id, eventId: id });
+    }
+
+    const existing = byId.get(id);
+    byId.set(id, existing ? mergeEvents(existing, { ...event, id }) : { ...event, id });
+  }
+
+  return { events: Array.from(byId.values()), aliases };
+}
@@ -0,0 +1,30 @@
+import { Event, SearchParams } from "@shared/schema";
+import { PerplexityProvider } from "./perplexityApi";
+import { FixtureProvider } from "./fixtureProvider";
+import type { CircuitBreaker } from "./resilience";
+
+// A source of event data the server can search
+export interface EventProvider {
+  // Label recorded as the source of persisted events
+  readonly name: string;
+  search(params: SearchParams): Promise<Event[]>;
+  // Circuit breaker guarding remote providers, reported on /api/health
+  readonly breaker?: CircuitBreaker;
+}
+
+// Pick the event provider: EVENT_PROVIDER=perplexity|fixture (default perplexity)
+export function createEventProvider(): EventProvider {
+  const provider = process.env.EVENT_PROVIDER || "perplexity";
+
+  switch (provider) {
+    case "perplexity":
+      return new PerplexityProvider(process.env.PERPLEXITY_API_KEY);
+    case "fixture":
+      return new FixtureProvider(process.env.EVENT_FIXTURE_PATH || FixtureProvider.defaultPath);
+    default:
+      throw new Error(`Unknown EVENT_PROVIDER: ${provider}`);
+  }
+}
+
+// Export a singleton instance
+export const eventProvider = createEventProvider();
@@ -0,0 +1,60 @@
+import { Event, EventSort } from "@shared/schema";
+import { storage } from "./storage";
+
+type Comparator = (a: Event, b: Event) => number;
+
+// Start date then start time (or the first session's), all-day events first
+const byStart: Comparator = (a, b) => {
+  const key = (event: Event) =>
+    `${event.startDate} ${event.startTime ?? event.sessions[0]?.startTime ?? ""}`;
+  return key(a).localeCompare(key(b));
+};
+
+// Last day of the run, soonest first; single-day events end on their start date
+const byEnd: Comparator = (a, b) => {
+  const key = (event: Event) =>
+    `${event.endDate ?? event.startDate} ${event.endTime ?? ""}`;
+  return key(a).localeCompare(key(b));
+};
+
+// Fall back to start order so ties come out the same every time
+function thenByStart(compare: Comparator): Comparator {
+  return (a, b) => compare(a, b) || byStart(a, b) || a.id.localeCompare(b.id);
+}
+
+// Return a sorted copy of the events. Title sorting follows the requested
+// language, district sorting the districts' displayOrder, and "recent" puts
+// the events this server found most recently first.
+export async function sortEvents(events: Event[], sort: EventSort, language: "ja" | "en"): Promise<Event[]> {
+  let compare: Comparator;
+
+  switch (sort) {
+    case "start":
+      compare = byStart;
+      break;
+    case "end":
+      compare = byEnd;
+      break;
+    case "title": {
+      const collator = new Intl.Collator(language, { sensitivity: "base", numeric: true });
+      compare = (a, b) => language === "ja"
+        ? collator.compare(a.titleJa, b.titleJa)
+        : collator.compare(a.titleEn, b.titleEn);
+      break;
+    }
+    case "district": {
+      const order = new Map((await storage.getAllDistricts()).map((district) => [district.value, district.displayOrder]));
+      const rank = (event: Event) => order.get(event.district) ?? Number.MAX_SAFE_INTEGER;
+      compare = (a, b) => rank(a) - rank(b);
+      break;
+    }
+    case "recent": {
+      const fetchedAt = await storage.getEventFetchTimes(events.map((event) => event.id));
+      const time = (event: Event) => fetchedAt.get(event.id)?.getTime() ?? 0;
+      compare = (a, b) => time(b) - time(a);
+      break;
+    }
+  }
+
+  return [...events].sort(thenByStart(compare));
+}
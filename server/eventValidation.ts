@@ -0,0 +1,347 @@
+import { Event, EventCategory, EventSession, EventValidationStats, eventCategories, eventSchema } from "@shared/schema";
+import { classifyEvent } from "./eventClassifier";
+
+type ValidationOutcome =
+  | { status: "accepted" | "repaired"; event: Event }
+  | { status: "rejected"; reason: string };
+
+// Normalise the many date spellings models produce to YYYY-MM-DD.
+// Returns null when the value is not a real calendar date.
+export function normalizeDate(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  // 2024-03-01, 2024/3/1, 2024.03.01, 2024年3月1日, 2024-03-01T10:00:00+09:00
+  const match = value.trim().match(/^(\d{4})\s*[-/.年]\s*(\d{1,2})\s*[-/.月]\s*(\d{1,2})\s*日?(?:[T\s].*)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day] = match;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (date.getUTCMonth() !== Number(month) - 1 || date.getUTCDate() !== Number(day)) {
+    return null;
+  }
+
+  return date.toISOString().split("T")[0];
+}
+
+// Normalise a time of day to 24-hour HH:MM. Accepts 19:00, 19:00:00, 19時,
+// 19時30分, 午後7時, 7pm and 7:30 PM. Returns null when the value is not a time.
+export function normalizeTime(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const match = value.trim().normalize("NFKC").toLowerCase()
+    .match(/^(午前|午後)?\s*(\d{1,2})(?:\s*(:|時)\s*(\d{2})?)?(?::\d{2})?\s*分?\s*(am|pm|a\.m\.|p\.m\.)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, japaneseMeridiem, hourText, separator, minuteText, meridiem] = match;
+  // A bare number is more likely a day or a count than a time
+  if (!separator && !japaneseMeridiem && !meridiem) {
+    return null;
+  }
+
+  let hour = Number(hourText);
+  const minute = Number(minuteText ?? 0);
+  const isPm = japaneseMeridiem === "午後" || meridiem?.startsWith("p");
+  const isAm = japaneseMeridiem === "午前" || meridiem?.startsWith("a");
+  if ((isPm || isAm) && (hour < 1 || hour > 12)) {
+    return null;
+  }
+  if (isPm && hour < 12) {
+    hour += 12;
+  } else if (isAm && hour === 12) {
+    hour = 0;
+  }
+  if (hour > 23 || minute > 59) {
+    return null;
+  }
+
+  return `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+}
+
+// Tokyo time of day from a date-time string such as 2024-03-01T19:00:00+09:00.
+// Times with a different UTC offset are ignored rather than converted, since
+// the date part would have to move as well.
+function timeOfDay(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const match = value.trim().match(/^\d{4}\S*[T\s](\d{1,2}:\d{2})(?::\d{2}(?:\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/);
+  if (!match || (match[2] && !/^\+09:?00$/.test(match[2]))) {
+    return null;
+  }
+  return normalizeTime(match[1]);
+}
+
+// Trimmed string value, or "" for anything that is not a string
+function text(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+// Up to 10 trimmed, de-duplicated tags; anything that is not a string is dropped
+function tagList(value: unknown): string[] {
+  const tags = Array.isArray(value) ? value.map(text).filter(Boolean) : [];
+  return Array.from(new Set(tags)).slice(0, 10);
+}
+
+// Whole-unit price from a number or a string like "¥1,500", "1500円" or "無料".
+// Returns null when no price can be read.
+function price(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value >= 0 ? Math.round(value) : null;
+  }
+  if (typeof value !== "string") {
+    return null;
+  }
+  if (/無料|free/i.test(value)) {
+    return 0;
+  }
+  const match = value.replace(/[,，]/g, "").match(/\d+(?:\.\d+)?/);
+  return match ? Math.round(Number(match[0])) : null;
+}
+
+// true/false from a boolean or a yes/no string, null when unknown
+function flag(value: unknown): boolean | null {
+  if (typeof value === "boolean") {
+    return value;
+  }
+  const normalized = text(value).toLowerCase();
+  if (["true", "yes", "はい", "要"].includes(normalized)) {
+    return true;
+  }
+  if (["false", "no", "いいえ", "不要"].includes(normalized)) {
+    return false;
+  }
+  return null;
+}
+
+// Tokyo Metropolis, from Okinotorishima in the south-west to Minamitorishima in the east
+const TOKYO_BOUNDS = { minLat: 20, maxLat: 36, minLng: 136, maxLng: 154 };
+
+// Venue coordinates from lat/lng (or latitude/longitude) as numbers or numeric
+// strings. Both are dropped unless the point lies in Tokyo.
+function coordinates(item: Record<string, unknown>): { lat: number | null; lng: number | null } {
+  const lat = Number(item.lat ?? item.latitude ?? NaN);
+  const lng = Number(item.lng ?? item.longitude ?? NaN);
+  const inTokyo = lat >= TOKYO_BOUNDS.minLat && lat <= TOKYO_BOUNDS.maxLat &&
+    lng >= TOKYO_BOUNDS.minLng && lng <= TOKYO_BOUNDS.maxLng;
+  return inTokyo ? { lat, lng } : { lat: null, lng: null };
+}
+
+// Valid sessions sorted by date and time, without duplicates, at most 50
+function sessionList(value: unknown): EventSession[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const sessions = new Map<string, EventSession>();
+  for (const entry of value) {
+    if (!entry || typeof entry !== "object") {
+      continue;
+    }
+    const session = entry as Record<string, unknown>;
+    const date = normalizeDate(session.date);
+    if (!date) {
+      continue;
+    }
+    const startTime = normalizeTime(session.startTime) ?? timeOfDay(session.date);
+    sessions.set(`${date} ${startTime ?? ""}`, { date, startTime, endTime: normalizeTime(session.endTime) });
+  }
+
+  return Array.from(sessions.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .slice(0, 50)
+    .map(([, session]) => session);
+}
+
+// Absolute http(s) URL or ""
+function url(value: unknown): string {
+  const candidate = text(value);
+  return /^https?:\/\//.test(candidate) ? candidate : "";
+}
+
+// Validate a single provider item, repairing what can be repaired
+export function validateEvent(raw: unknown): ValidationOutcome {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { status: "rejected", reason: "not an object" };
+  }
+
+  const item = raw as Record<string, unknown>;
+  let repaired = false;
+
+  // Fill a field from its other-language counterpart when missing
+  const bilingual = (primary: unknown, fallback: unknown) => {
+    const value = text(primary);
+    if (value) {
+      repaired ||= value !== primary;
+      return value;
+    }
+    repaired = true;
+    return text(fallback);
+  };
+
+  const titleJa = bilingual(item.titleJa, item.titleEn);
+  const titleEn = bilingual(item.titleEn, item.titleJa);
+  const descriptionJa = bilingual(item.descriptionJa, item.descriptionEn);
+  const descriptionEn = bilingual(item.descriptionEn, item.descriptionJa);
+
+  let startDate = normalizeDate(item.startDate);
+  if (!startDate) {
+    return { status: "rejected", reason: `invalid startDate: ${JSON.stringify(item.startDate)}` };
+  }
+  repaired ||= startDate !== item.startDate;
+
+  // An unparseable endDate is dropped rather than rejecting the whole event
+  let endDate = item.endDate == null || item.endDate === "" || item.endDate === "null"
+    ? null
+    : normalizeDate(item.endDate);
+  repaired ||= endDate !== item.endDate;
+
+  // Swap reversed ranges; a same-day range is a single-day event
+  if (endDate && endDate < startDate) {
+    [startDate, endDate] = [endDate, startDate];
+    repaired = true;
+  }
+
+  // Times come from startTime/endTime or, failing that, the date strings themselves
+  const startTime = normalizeTime(item.startTime) ?? timeOfDay(item.startDate);
+  const endTime = normalizeTime(item.endTime) ?? timeOfDay(item.endDate);
+  repaired ||= (item.startTime !== undefined && startTime !== item.startTime) ||
+    (item.endTime !== undefined && endTime !== item.endTime);
+
+  // The date range must cover every session
+  const sessions = sessionList(item.sessions);
+  repaired ||= item.sessions !== undefined &&
+    (!Array.isArray(item.sessions) || sessions.length !== item.sessions.length);
+  if (sessions.length > 0 && sessions[0].date < startDate) {
+    startDate = sessions[0].date;
+    repaired = true;
+  }
+  if (sessions.length > 0 && sessions[sessions.length - 1].date > (endDate ?? startDate)) {
+    endDate = sessions[sessions.length - 1].date;
+    repaired = true;
+  }
+  if (endDate === startDate) {
+    endDate = null;
+    repaired = true;
+  }
+
+  const rawId = item.id;
+  const id = typeof rawId === "number" ? String(rawId) : text(rawId);
+  repaired ||= id !== rawId;
+
+  const location = text(item.location);
+  const district = text(item.district);
+  const imageUrl = url(item.imageUrl);
+  repaired ||= location !== item.location || district !== item.district || imageUrl !== item.imageUrl;
+
+  // Keep a known category; otherwise guess one from the text. A missing category
+  // is expected from older sources, an unknown one counts as a repair.
+  const suppliedCategory = text(item.category).toLowerCase();
+  const category = (eventCategories as readonly string[]).includes(suppliedCategory)
+    ? suppliedCategory as EventCategory
+    : classifyEvent({ titleJa, titleEn, descriptionJa, descriptionEn });
+  repaired ||= suppliedCategory !== "" && category !== item.category;
+
+  const tags = tagList(item.tags);
+  repaired ||= item.tags !== undefined && (!Array.isArray(item.tags) || tags.length !== item.tags.length);
+
+  // Admission. Fields missing from older sources stay unknown (null) without
+  // counting as a repair; values that had to be parsed or corrected do count.
+  let priceMin = price(item.priceMin);
+  let priceMax = price(item.priceMax);
+  let isFree = flag(item.isFree);
+  const bookingRequired = flag(item.bookingRequired);
+  repaired ||= (item.priceMin !== undefined && priceMin !== item.priceMin) ||
+    (item.priceMax !== undefined && priceMax !== item.priceMax) ||
+    (item.isFree !== undefined && isFree !== item.isFree) ||
+    (item.bookingRequired !== undefined && bookingRequired !== item.bookingRequired);
+
+  if (priceMin !== null && priceMax !== null && priceMax < priceMin) {
+    [priceMin, priceMax] = [priceMax, priceMin];
+    repaired = true;
+  }
+  // Derive the free flag from the prices, or the prices from the free flag
+  if (isFree === null && priceMax !== null) {
+    isFree = priceMax === 0;
+  } else if (isFree === null && priceMin !== null && priceMin > 0) {
+    isFree = false;
+  } else if (isFree === true && priceMin !== null && priceMin > 0) {
+    isFree = false;
+    repaired = true;
+  } else if (isFree === true && priceMin === null) {
+    priceMin = 0;
+  }
+
+  const suppliedCurrency = text(item.currency).toUpperCase();
+  const currency = /^[A-Z]{3}$/.test(suppliedCurrency) ? suppliedCurrency : "JPY";
+  const ticketUrl = url(item.ticketUrl);
+  repaired ||= (item.currency !== undefined && currency !== item.currency) ||
+    (item.ticketUrl !== undefined && ticketUrl !== item.ticketUrl);
+
+  // Venue coordinates, optional
+  const { lat, lng } = coordinates(item);
+  repaired ||= (item.lat !== undefined && lat !== item.lat) || (item.lng !== undefined && lng !== item.lng);
+
+  const result = eventSchema.safeParse({
+    id,
+    titleJa,
+    titleEn,
+    descriptionJa,
+    descriptionEn,
+    startDate,
+    endDate,
+    startTime,
+    endTime,
+    sessions,
+    location,
+    district,
+    lat,
+    lng,
+    imageUrl,
+    category,
+    tags,
+    isFree,
+    priceMin,
+    priceMax,
+    currency,
+    ticketUrl,
+    bookingRequired,
+    synthetic: item.synthetic === true,
+  });
+
+  if (!result.success) {
+    return {
+      status: "rejected",
+      reason: result.error.errors.map((err) => `${err.path.join(".")}: ${err.message}`).join(", "),
+    };
+  }
+
+  return { status: repaired ? "repaired" : "accepted", event: result.data };
+}
+
+// Validate a batch of provider items, keeping accepted and repaired events
+export function validateEvents(items: unknown[]): { events: Event[]; stats: EventValidationStats } {
+  const events: Event[] = [];
+  const stats: EventValidationStats = { accepted: 0, repaired: 0, rejected: 0 };
+
+  for (const item of items) {
+    const outcome = validateEvent(item);
+    stats[outcome.status]++;
+
+    if (outcome.status === "rejected") {
+      console.log("Rejected event from provider:", outcome.reason);
+    } else {
+      events.push(outcome.event);
+    }
+  }
+
+  return { events, stats };
+}
@@ -0,0 +1,188 @@
+import { Event, EventSearchResponse, EventValidationStats, SearchParams } from "@shared/schema";
+import { storage } from "./storage";
+import { eventProvider } from "./eventProvider";
+import { validateEvents } from "./eventValidation";
+import { SearchCache, searchCacheKey } from "./searchCache";
+import { canonicalizeEvents } from "./eventIdentity";
+import { splitDateRange, mapWithConcurrency } from "./searchChunks";
+import { matchesFilters } from "./textSearch";
+import { districtScope, searchDistricts, unknownDistricts } from "./districtHierarchy";
+import type { RateLimitResult } from "./rateLimit";
+
+// Reserves provider calls before a cache miss reaches the provider; a refused
+// reservation fails the request without calling it
+export type ProviderBudget = (calls: number) => RateLimitResult;
+
+// Thrown before calling the provider when the caller's budget is used up
+export class ProviderBudgetError extends Error {
+  constructor(readonly resetAt: number) {
+    super("Too many new searches right now. Log in or try again later.");
+    this.name = "ProviderBudgetError";
+  }
+}
+
+// Cache of search responses keyed by normalised SearchParams
+export const eventSearchCache = new SearchCache<EventSearchResponse>({
+  ttlMs: Number(process.env.SEARCH_CACHE_TTL_SECONDS ?? 600) * 1000,
+  staleMs: Number(process.env.SEARCH_CACHE_STALE_SECONDS ?? 3600) * 1000,
+  maxEntries: Number(process.env.SEARCH_CACHE_MAX_ENTRIES ?? 500),
+});
+
+// Search events, serving cached responses when available. Cache misses are
+// charged to the budget when one is given.
+export async function searchEvents(params: SearchParams, budget?: ProviderBudget) {
+  const key = searchCacheKey(params);
+  const result = await eventSearchCache.get(key, () => fetchEvents(params, budget));
+
+  // Serve partial results once but retry the failed sub-queries on the next request
+  if (result.entry.value.meta.partial) {
+    eventSearchCache.invalidate(key);
+  }
+
+  return result;
+}
+
+// Wide searches are split into sub-queries of at most this many days
+const SEARCH_CHUNK_DAYS = Number(process.env.SEARCH_CHUNK_DAYS ?? 7);
+if (!Number.isInteger(SEARCH_CHUNK_DAYS) || SEARCH_CHUNK_DAYS < 1) {
+  throw new Error(`SEARCH_CHUNK_DAYS must be a whole number of at least 1, got ${process.env.SEARCH_CHUNK_DAYS}`);
+}
+// Maximum number of sub-queries sent to the provider at once
+const SEARCH_CHUNK_CONCURRENCY = Number(process.env.SEARCH_CHUNK_CONCURRENCY ?? 4);
+if (!Number.isInteger(SEARCH_CHUNK_CONCURRENCY) || SEARCH_CHUNK_CONCURRENCY < 1) {
+  throw new Error(`SEARCH_CHUNK_CONCURRENCY must be a whole number of at least 1, got ${process.env.SEARCH_CHUNK_CONCURRENCY}`);
+}
+// Most sub-queries one search may send; each is a paid provider call
+const MAX_SEARCH_CHUNKS = 60;
+
+// Thrown before calling the provider for a search that cannot be run as asked,
+// e.g. one that would need too many sub-queries
+export class InvalidSearchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidSearchError";
+  }
+}
+
+// Split a search into per-week and per-district sub-queries
+function splitSearch(params: SearchParams, districts: string[]): SearchParams[] {
+  const ranges = splitDateRange(params.dateFrom, params.dateTo, SEARCH_CHUNK_DAYS);
+
+  return ranges.flatMap((range) =>
+    districts.map((district) => ({ ...params, ...range, district: [district] }))
+  );
+}
+
+// Search events through the configured provider, merging the sub-query results
+export async function fetchEvents(params: SearchParams, budget?: ProviderBudget): Promise<EventSearchResponse> {
+  try {
+    const allDistricts = await storage.getAllDistricts();
+    const districtValues = allDistricts.map((district) => district.value);
+    // Unknown values would reach the prompt and be stored as event districts
+    const unknown = unknownDistricts(allDistricts, params.district);
+    if (unknown.length > 0) {
+      throw new InvalidSearchError(`Unknown district: ${unknown.join(", ")}`);
+    }
+    // Regions and "all districts" are asked per area; every chosen district is
+    // covered and the results are merged below
+    const chunks = splitSearch(params, searchDistricts(allDistricts, params.district));
+    if (chunks.length === 0) {
+      throw new InvalidSearchError(`Nothing to search between ${params.dateFrom} and ${params.dateTo}`);
+    }
+    if (chunks.length > MAX_SEARCH_CHUNKS) {
+      throw new InvalidSearchError(`This search would need ${chunks.length} provider requests (at most ${MAX_SEARCH_CHUNKS}). Choose fewer districts or a shorter date range.`);
+    }
+    const reserved = budget?.(chunks.length);
+    if (reserved && !reserved.allowed) {
+      throw new ProviderBudgetError(reserved.resetAt);
+    }
+
+    const results = await mapWithConcurrency(chunks, SEARCH_CHUNK_CONCURRENCY, async (chunk) => {
+      const items: unknown = await eventProvider.search(chunk);
+      const { events, stats } = validateEvents(Array.isArray(items) ? items : []);
+
+      // The model often answers with a free-form district; use the one we asked for
+      return {
+        events: events.map((event) =>
+          districtValues.includes(event.district) ? event : { ...event, district: chunk.district![0] }
+        ),
+        stats,
+      };
+    });
+
+    const validated: Event[] = [];
+    const stats: EventValidationStats = { accepted: 0, repaired: 0, rejected: 0 };
+    const warnings: string[] = [];
+
+    results.forEach((result, index) => {
+      const chunk = chunks[index];
+      if (result.status === "rejected") {
+        console.error(`Sub-query ${chunk.dateFrom}..${chunk.dateTo} (${chunk.district![0]}) failed:`, result.reason);
+        warnings.push(`No results for ${chunk.dateFrom} to ${chunk.dateTo} in ${chunk.district![0]}: the event provider request failed`);
+        return;
+      }
+      validated.push(...result.value.events);
+      stats.accepted += result.value.stats.accepted;
+      stats.repaired += result.value.stats.repaired;
+      stats.rejected += result.value.stats.rejected;
+    });
+
+    // Provider down or circuit open: fall back to previously stored events
+    if (warnings.length === chunks.length) {
+      console.warn(`All ${chunks.length} sub-queries failed; serving stored events`);
+      return {
+        events: await storage.findEvents(params),
+        meta: {
+          validation: stats,
+          partial: true,
+          warnings: ["The event provider is unavailable; showing previously found events"],
+        },
+      };
+    }
+    console.log(`Validated ${eventProvider.name} events from ${chunks.length} sub-queries:`, stats);
+
+    // Replace provider IDs with canonical ones and merge duplicates
+    const { events: merged, aliases } = canonicalizeEvents(validated);
+
+    // イベントが見つかった場合のみ保存する
+    if (merged.length > 0) {
+      // Persist events so favorites can always resolve them
+      await storage.upsertEvents(merged, eventProvider.name);
+      await storage.addEventAliases(aliases);
+    }
+
+    // The model does not always honour the district, keyword, category or price
+    // filters, so filter here as well. A district includes its wards and cities.
+    const scope = params.district?.length ? districtScope(allDistricts, params.district) : null;
+    const events = merged.filter((event) =>
+      (!scope || scope.includes(event.district)) && matchesFilters(event, params)
+    );
+
+    return {
+      events,
+      meta: {
+        validation: stats,
+        partial: warnings.length > 0,
+        warnings,
+      },
+    };
+  } catch (error) {
+    if (error instanceof InvalidSearchError || error instanceof ProviderBudgetError) {
+      throw error;
+    }
+    console.error(`Error fetching events from ${eventProvider.name}:`, error);
+    throw new Error('Failed to fetch events. Please try again later.');
+  }
+}
+
+// Fetch a single event by canonical ID or alias. Events are only known once a
+// search has found them; the provider is never asked to look up an ID, since
+// it would invent an event rather than find one.
+export async function fetchEventById(eventId: string): Promise<Event | null> {
+  try {
+    return (await storage.getEvent(eventId)) ?? null;
+  } catch (error) {
+    console.error(`Error loading event ${eventId}:`, error);
+    throw new Error('Failed to fetch event details. Please try again later.');
+  }
+}
@@ -0,0 +1,56 @@
+import { Event, SearchParams } from "@shared/schema";
+import type { EventProvider } from "./eventProvider";
+import fs from "fs/promises";
+import path from "path";
+import { parse as parseYaml } from "yaml";
+import { matchesFilters } from "./textSearch";
+import { storage } from "./storage";
+import { districtScope } from "./districtHierarchy";
+import { validateEvents } from "./eventValidation";
+
+// Event provider backed by a JSON or YAML event catalogue on disk.
+// The file holds either an array of events or an object with an `events` array.
+// Fixture events are demo data, so every one is marked synthetic.
+export class FixtureProvider implements EventProvider {
+  static readonly defaultPath = path.resolve(process.cwd(), "server", "fixtures", "events.json");
+
+  readonly name = "fixture";
+
+  constructor(private filePath: string) {}
+
+  // Return catalogue events overlapping the date range, optionally in any of the
+  // districts (including their wards and cities) and matching the keyword, category and price filters
+  async search(params: SearchParams): Promise<Event[]> {
+    // Catalogue rows are validated first, like provider answers: older rows may
+    // lack sessions or a category, which the filters below rely on
+    const { events } = validateEvents(await this.load());
+    const scope = params.district?.length ? districtScope(await storage.getAllDistricts(), params.district) : null;
+
+    return events.filter((event) => {
+      const endDate = event.endDate || event.startDate;
+      if (event.startDate > params.dateTo || endDate < params.dateFrom) {
+        return false;
+      }
+      if (scope && !scope.includes(event.district)) {
+        return false;
+      }
+      return matchesFilters(event, params);
+    });
+  }
+
+  // Read the catalogue on every call so edits show up without a restart
+  private async load(): Promise<unknown[]> {
+    const content = await fs.readFile(this.filePath, "utf8");
+    const extension = path.extname(this.filePath).toLowerCase();
+    const data = extension === ".yaml" || extension === ".yml"
+      ? parseYaml(content)
+      : JSON.parse(content);
+
+    const events = Array.isArray(data) ? data : data?.events;
+    if (!Array.isArray(events)) {
+      throw new Error(`Event fixture ${this.filePath} does not contain an events array`);
+    }
+
+    return events.map((event) => ({ ...event, synthetic: true }));
+  }
+}
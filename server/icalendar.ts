@@ -0,0 +1,156 @@
+import { Event } from "@shared/schema";
+
+// iCalendar (RFC 5545) export of events. Times are Tokyo local times, so every
+// timed VEVENT refers to the Asia/Tokyo VTIMEZONE below.
+
+const PRODID = "-//Tokyo Event Finder//Events//EN";
+const TZID = "Asia/Tokyo";
+
+// Japan has had no daylight saving time since 1951, so one STANDARD rule is enough
+const VTIMEZONE = [
+  "BEGIN:VTIMEZONE",
+  `TZID:${TZID}`,
+  "BEGIN:STANDARD",
+  "DTSTART:19700101T000000",
+  "TZOFFSETFROM:+0900",
+  "TZOFFSETTO:+0900",
+  "TZNAME:JST",
+  "END:STANDARD",
+  "END:VTIMEZONE",
+];
+
+export interface CalendarOptions {
+  language: "ja" | "en";
+  name?: string; // calendar name shown by calendar apps (X-WR-CALNAME)
+  eventUrl?: (event: Event) => string; // link back to the event page
+  stamp?: Date; // DTSTAMP of every VEVENT, defaults to now
+}
+
+// Escape a TEXT value
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Fold a content line to at most 75 octets, never splitting a UTF-8 character
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards their 75 octets
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+// 2026-11-01 → 20261101
+function formatDate(date: string): string {
+  return date.replace(/-/g, "");
+}
+
+// 2026-11-01 + 19:00 → 20261101T190000
+function formatDateTime(date: string, time: string): string {
+  return `${formatDate(date)}T${time.replace(":", "")}00`;
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+}
+
+// UTC timestamp for DTSTAMP
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// DTSTART/DTEND for one occurrence. Without a start time the occurrence is
+// all-day, with DTEND the day after the last day as RFC 5545 requires.
+function occurrence(startDate: string, endDate: string, startTime: string | null, endTime: string | null): string[] {
+  if (!startTime) {
+    return [
+      `DTSTART;VALUE=DATE:${formatDate(startDate)}`,
+      `DTEND;VALUE=DATE:${formatDate(addDays(endDate, 1))}`,
+    ];
+  }
+
+  const lines = [`DTSTART;TZID=${TZID}:${formatDateTime(startDate, startTime)}`];
+  if (endTime) {
+    // An end time before the start time runs past midnight
+    const end = endDate === startDate && endTime <= startTime ? addDays(endDate, 1) : endDate;
+    lines.push(`DTEND;TZID=${TZID}:${formatDateTime(end, endTime)}`);
+  }
+  return lines;
+}
+
+// The occurrences of an event: one per session, otherwise the whole event.
+// A multi-day run without sessions is exported as an all-day span, because
+// its times are the daily opening hours rather than one continuous block.
+function occurrences(event: Event): { key: string; lines: string[] }[] {
+  if (event.sessions.length > 0) {
+    return event.sessions.map((session, index) => ({
+      key: `${event.id}-${index + 1}`,
+      lines: occurrence(session.date, session.date, session.startTime, session.endTime),
+    }));
+  }
+
+  const endDate = event.endDate ?? event.startDate;
+  const multiDay = endDate > event.startDate;
+  return [{
+    key: event.id,
+    lines: multiDay
+      ? occurrence(event.startDate, endDate, null, null)
+      : occurrence(event.startDate, endDate, event.startTime, event.endTime),
+  }];
+}
+
+function eventLines(event: Event, options: CalendarOptions, stamp: string): string[] {
+  const title = options.language === "ja" ? event.titleJa : event.titleEn;
+  const description = options.language === "ja" ? event.descriptionJa : event.descriptionEn;
+  const url = options.eventUrl?.(event);
+  const details = [description, url].filter(Boolean).join("\n\n");
+
+  return occurrences(event).flatMap(({ key, lines }) => [
+    "BEGIN:VEVENT",
+    `UID:${key}@tokyo-event-finder`,
+    `DTSTAMP:${stamp}`,
+    ...lines,
+    `SUMMARY:${escapeText(title)}`,
+    ...(details ? [`DESCRIPTION:${escapeText(details)}`] : []),
+    `LOCATION:${escapeText(event.location)}`,
+    `CATEGORIES:${event.category.toUpperCase()}`,
+    ...(event.ticketUrl ? [`URL:${event.ticketUrl}`] : url ? [`URL:${url}`] : []),
+    "END:VEVENT",
+  ]);
+}
+
+// Build a VCALENDAR document holding the events
+export function eventsToCalendar(events: Event[], options: CalendarOptions): string {
+  const stamp = formatTimestamp(options.stamp ?? new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...(options.name ? [`X-WR-CALNAME:${escapeText(options.name)}`] : []),
+    `X-WR-TIMEZONE:${TZID}`,
+    ...VTIMEZONE,
+    ...events.flatMap((event) => eventLines(event, options, stamp)),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
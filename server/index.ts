@@ -1,8 +1,14 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startSavedSearchJob } from "./savedSearches";
 
 const app = express();
+// Behind a reverse proxy, set TRUST_PROXY (e.g. "1" or "loopback") so req.ip is the client's address
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY;
+  app.set("trust proxy", /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy === "true" || trustProxy);
+}
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -66,5 +72,6 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startSavedSearchJob();
   });
 })();
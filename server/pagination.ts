@@ -0,0 +1,47 @@
+import { Event } from "@shared/schema";
+
+// Position after the last event of a page. The ID keeps pages stable when the
+// result set changes between requests; the offset is used if it has gone.
+export interface Cursor {
+  id: string;
+  offset: number;
+}
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+// Decode a cursor from a query string, or null when it is malformed
+export function decodeCursor(value: string): Cursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (typeof cursor?.id === "string" && Number.isInteger(cursor.offset) && cursor.offset >= 0) {
+      return { id: cursor.id, offset: cursor.offset };
+    }
+  } catch {
+    // fall through
+  }
+  return null;
+}
+
+// Slice one page out of the sorted events
+export function paginateEvents(
+  events: Event[],
+  limit: number,
+  cursor: Cursor | null,
+): { events: Event[]; nextCursor: string | null } {
+  let start = 0;
+  if (cursor) {
+    const index = events.findIndex((event) => event.id === cursor.id);
+    start = index >= 0 ? index + 1 : Math.min(cursor.offset, events.length);
+  }
+
+  const page = events.slice(start, start + limit);
+  const end = start + page.length;
+  return {
+    events: page,
+    nextCursor: end < events.length && page.length > 0
+      ? encodeCursor({ id: page[page.length - 1].id, offset: end })
+      : null,
+  };
+}
@@ -0,0 +1,108 @@
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import type { AddressInfo } from "net";
+import type { PerplexityProvider as PerplexityProviderType } from "./perplexityApi";
+import { CircuitOpenError, HttpError } from "./resilience";
+
+// The Perplexity client against a local stub server: retries, Retry-After,
+// timeouts and the circuit breaker
+
+type Reply = (res: http.ServerResponse) => void;
+
+const ok: Reply = (res) => {
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify({
+    id: "stub",
+    model: "stub",
+    choices: [{ message: { content: JSON.stringify([{ id: "stub-1", titleJa: "スタブ", startDate: "2026-11-14" }]) } }],
+  }));
+};
+
+const status = (code: number, headers: Record<string, string> = {}): Reply => (res) => {
+  res.writeHead(code, headers);
+  res.end();
+};
+
+// Never answers; the client has to time out
+const hang: Reply = () => {};
+
+const params = { dateFrom: "2026-11-01", dateTo: "2026-11-07" };
+
+describe("PerplexityProvider", () => {
+  let server: http.Server;
+  let PerplexityProvider: typeof PerplexityProviderType;
+  let replies: Reply[];
+  let requestTimes: number[];
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      requestTimes.push(Date.now());
+      req.resume();
+      (replies.shift() ?? status(500))(res);
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+
+    process.env.PERPLEXITY_API_URL = `http://localhost:${(server.address() as AddressInfo).port}/chat/completions`;
+    process.env.PERPLEXITY_TIMEOUT_MS = "200";
+    process.env.PERPLEXITY_MAX_RETRIES = "2";
+    process.env.PERPLEXITY_BREAKER_THRESHOLD = "2";
+    process.env.PERPLEXITY_BREAKER_RESET_SECONDS = "60";
+    process.env.STORAGE_DRIVER = "memory";
+
+    // The client reads its settings from the environment on import
+    ({ PerplexityProvider } = await import("./perplexityApi"));
+  });
+
+  beforeEach(() => {
+    replies = [];
+    requestTimes = [];
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  it("retries server errors and returns the answer", async () => {
+    replies = [status(503), status(502), ok];
+    const events = await new PerplexityProvider("key").search(params);
+    assert.equal(events.length, 1);
+    assert.equal(requestTimes.length, 3);
+  });
+
+  it("waits for Retry-After before retrying a rate limit", async () => {
+    replies = [status(429, { "Retry-After": "1" }), ok];
+    await new PerplexityProvider("key").search(params);
+    assert.equal(requestTimes.length, 2);
+    // The backoff alone would wait at most 500ms
+    assert.ok(requestTimes[1] - requestTimes[0] >= 950, `retried after ${requestTimes[1] - requestTimes[0]}ms`);
+  });
+
+  it("times out a request that does not answer and retries it", async () => {
+    replies = [hang, ok];
+    const events = await new PerplexityProvider("key").search(params);
+    assert.equal(events.length, 1);
+    assert.equal(requestTimes.length, 2);
+  });
+
+  it("does not retry client errors", async () => {
+    replies = [status(400)];
+    await assert.rejects(new PerplexityProvider("key").search(params), (error: unknown) =>
+      error instanceof HttpError && error.status === 400);
+    assert.equal(requestTimes.length, 1);
+  });
+
+  it("opens the circuit after repeated failures and then fails without calling the API", async () => {
+    const provider = new PerplexityProvider("key");
+
+    await assert.rejects(provider.search(params), HttpError);
+    assert.equal(provider.breaker.snapshot().state, "closed");
+    await assert.rejects(provider.search(params), HttpError);
+    assert.equal(provider.breaker.snapshot().state, "open");
+    assert.equal(requestTimes.length, 6);
+
+    await assert.rejects(provider.search(params), CircuitOpenError);
+    assert.equal(requestTimes.length, 6);
+  });
+});
@@ -0,0 +1,80 @@
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number; // epoch milliseconds when the window restarts
+}
+
+// Fixed-window request counter per key (e.g. per client IP)
+export class RateLimiter {
+  private windows: Map<string, Window>;
+
+  constructor(readonly limit: number, readonly windowMs: number, private readonly maxKeys = 10000) {
+    this.windows = new Map();
+  }
+
+  // Check the key against its limit without counting a request
+  peek(key: string): RateLimitResult {
+    const window = this.current(key);
+    return this.result(window, window.count < this.limit);
+  }
+
+  // Count `cost` requests for the key, refusing them when they do not fit in the window
+  consume(key: string, cost = 1): RateLimitResult {
+    const window = this.current(key);
+    if (window.count + cost > this.limit) {
+      return this.result(window, false);
+    }
+    window.count += cost;
+    if (!this.windows.has(key)) {
+      this.makeRoom(Date.now());
+    }
+    this.windows.set(key, window);
+    return this.result(window, true);
+  }
+
+  private current(key: string): Window {
+    const now = Date.now();
+    const window = this.windows.get(key);
+    if (window && window.resetAt > now) {
+      return window;
+    }
+    // An expired window starts over at the end of the map, keeping it in age order
+    this.windows.delete(key);
+    return { count: 0, resetAt: now + this.windowMs };
+  }
+
+  // Keep the map below maxKeys: forget expired windows, then the oldest live
+  // ones, e.g. when many addresses are seen within one daily window
+  private makeRoom(now: number) {
+    if (this.windows.size < this.maxKeys) {
+      return;
+    }
+    this.windows.forEach((window, key) => {
+      if (window.resetAt <= now) {
+        this.windows.delete(key);
+      }
+    });
+    while (this.windows.size >= this.maxKeys) {
+      const oldest = this.windows.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.windows.delete(oldest);
+    }
+  }
+
+  private result(window: Window, allowed: boolean): RateLimitResult {
+    return {
+      allowed,
+      limit: this.limit,
+      remaining: Math.max(0, this.limit - window.count),
+      resetAt: window.resetAt,
+    };
+  }
+}
@@ -0,0 +1,159 @@
+// HTTP error carrying the status and any Retry-After delay from the response
+export class HttpError extends Error {
+  constructor(message: string, readonly status: number, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+// Thrown without calling the wrapped function while the circuit is open
+export class CircuitOpenError extends Error {
+  constructor(name: string) {
+    super(`Circuit ${name} is open`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+// Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// fetch that aborts when the response takes longer than timeoutMs
+export async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error(`Request to ${url} timed out after ${timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Rate limits, server errors and network failures are worth retrying
+function isRetryable(error: unknown): boolean {
+  if (error instanceof HttpError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  return !(error instanceof CircuitOpenError);
+}
+
+interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Call fn, retrying retryable failures with exponential backoff and full jitter.
+// A Retry-After delay from the server takes precedence over the backoff.
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= options.retries || !isRetryable(error)) {
+        throw error;
+      }
+
+      const backoff = Math.random() * Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+      const delay = error instanceof HttpError && error.retryAfterMs !== undefined
+        ? Math.min(error.retryAfterMs, options.maxDelayMs)
+        : backoff;
+
+      console.log(`Retrying after ${Math.round(delay)}ms (attempt ${attempt + 1} of ${options.retries}):`,
+        error instanceof Error ? error.message : error);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  lastError: string | null;
+}
+
+interface CircuitBreakerOptions {
+  failureThreshold: number; // consecutive failures that open the circuit
+  resetTimeoutMs: number; // how long to stay open before allowing a trial call
+}
+
+// Circuit breaker: after failureThreshold consecutive failures calls are rejected
+// for resetTimeoutMs, then a single trial call decides whether to close again
+export class CircuitBreaker {
+  private state: CircuitState;
+  private consecutiveFailures: number;
+  private openedAt: number | null;
+  private lastError: string | null;
+  private trialInFlight: boolean;
+
+  constructor(readonly name: string, private options: CircuitBreakerOptions) {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.lastError = null;
+    this.trialInFlight = false;
+  }
+
+  async exec<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.state === "open" && Date.now() - this.openedAt! >= this.options.resetTimeoutMs) {
+      this.state = "half-open";
+    }
+
+    if (this.state === "open" || (this.state === "half-open" && this.trialInFlight)) {
+      throw new CircuitOpenError(this.name);
+    }
+
+    const isTrial = this.state === "half-open";
+    this.trialInFlight ||= isTrial;
+
+    try {
+      const result = await fn();
+      this.state = "closed";
+      this.consecutiveFailures = 0;
+      this.openedAt = null;
+      return result;
+    } catch (error) {
+      this.consecutiveFailures++;
+      this.lastError = error instanceof Error ? error.message : String(error);
+      if (isTrial || this.consecutiveFailures >= this.options.failureThreshold) {
+        console.warn(`Circuit ${this.name} open after ${this.consecutiveFailures} consecutive failures`);
+        this.state = "open";
+        this.openedAt = Date.now();
+      }
+      throw error;
+    } finally {
+      if (isTrial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+
+  snapshot(): CircuitBreakerSnapshot {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+      lastError: this.lastError,
+    };
+  }
+}
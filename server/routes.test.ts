@@ -0,0 +1,143 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import type { EventSearchPage } from "@shared/schema";
+
+// End-to-end search through /api/events with the fixture provider and memory
+// storage: no database, no network
+
+const catalogue = [
+  {
+    id: "fixture-minato-jazz",
+    titleJa: "港ジャズナイト",
+    titleEn: "Minato Jazz Night",
+    descriptionJa: "夜のジャズライブ",
+    descriptionEn: "An evening of live jazz",
+    startDate: "2026-11-14",
+    endDate: null,
+    startTime: "19:00",
+    endTime: "21:00",
+    sessions: [],
+    location: "港区のホール",
+    district: "minato",
+    lat: 35.65,
+    lng: 139.75,
+    imageUrl: "",
+    category: "music",
+    tags: ["ジャズ"],
+    isFree: false,
+    priceMin: 3000,
+    priceMax: 3000,
+    currency: "JPY",
+    ticketUrl: "",
+    bookingRequired: true,
+  },
+  // An older catalogue row: no sessions, category, coordinates or admission
+  {
+    id: "fixture-hachioji-market",
+    titleJa: "八王子朝市",
+    titleEn: "Hachioji Morning Market",
+    descriptionJa: "地元野菜の朝市",
+    descriptionEn: "Local vegetables at the morning market",
+    startDate: "2026-11-15",
+    endDate: null,
+    location: "八王子駅前",
+    district: "hachioji",
+    imageUrl: "",
+  },
+  {
+    id: "fixture-shibuya-december",
+    titleJa: "渋谷ウィンターフェス",
+    titleEn: "Shibuya Winter Fest",
+    descriptionJa: "",
+    descriptionEn: "",
+    startDate: "2026-12-20",
+    endDate: null,
+    sessions: [],
+    location: "渋谷",
+    district: "shibuya",
+    imageUrl: "",
+    category: "other",
+  },
+];
+
+describe("GET /api/events with the fixture provider", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  const get = async (url: string) => {
+    const res = await fetch(baseUrl + url);
+    return { res, body: await res.json() };
+  };
+
+  before(async () => {
+    const fixturePath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), "events-")), "events.json");
+    await fs.writeFile(fixturePath, JSON.stringify(catalogue));
+    process.env.EVENT_PROVIDER = "fixture";
+    process.env.EVENT_FIXTURE_PATH = fixturePath;
+    process.env.STORAGE_DRIVER = "memory";
+
+    // The provider and storage are picked from the environment on import
+    const { registerRoutes } = await import("./routes");
+    const app = express();
+    app.use(express.json());
+    server = await registerRoutes(app);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it("returns the catalogue events in the range, marked synthetic, and caches the search", async () => {
+    const first = await get("/api/events?dateFrom=2026-11-01&dateTo=2026-11-30");
+    assert.equal(first.res.status, 200);
+    assert.equal(first.res.headers.get("x-cache"), "MISS");
+
+    const page = first.body as EventSearchPage;
+    assert.deepEqual(page.events.map((event) => event.titleEn).sort(), ["Hachioji Morning Market", "Minato Jazz Night"]);
+    assert.ok(page.events.every((event) => event.synthetic));
+    assert.equal(page.meta.partial, false);
+
+    const second = await get("/api/events?dateFrom=2026-11-01&dateTo=2026-11-30");
+    assert.equal(second.res.headers.get("x-cache"), "HIT");
+  });
+
+  it("filters older catalogue rows instead of failing", async () => {
+    const { res, body } = await get("/api/events?dateFrom=2026-11-01&dateTo=2026-11-30&evening=true");
+    assert.equal(res.status, 200);
+    const page = body as EventSearchPage;
+    assert.equal(page.meta.partial, false);
+    assert.deepEqual(page.events.map((event) => event.titleEn), ["Minato Jazz Night"]);
+  });
+
+  it("limits the search to a region, including its cities", async () => {
+    const { body } = await get("/api/events?dateFrom=2026-11-01&dateTo=2026-11-30&district=tama-region");
+    assert.deepEqual((body as EventSearchPage).events.map((event) => event.district), ["hachioji"]);
+  });
+
+  it("serves found events by ID and 404 for unknown IDs", async () => {
+    const { body } = await get("/api/events?dateFrom=2026-11-01&dateTo=2026-11-30&district=minato");
+    const [event] = (body as EventSearchPage).events;
+
+    const found = await get(`/api/events/${event.id}`);
+    assert.equal(found.res.status, 200);
+    assert.equal(found.body.titleEn, "Minato Jazz Night");
+
+    const missing = await get("/api/events/ev-0000000000000000");
+    assert.equal(missing.res.status, 404);
+    assert.equal(missing.body.reason, "not_found");
+  });
+
+  it("rejects impossible dates, long ranges and unknown districts", async () => {
+    assert.equal((await get("/api/events?dateFrom=2026-13-45&dateTo=2026-13-46")).res.status, 400);
+    assert.equal((await get("/api/events?dateFrom=2026-11-01&dateTo=2026-12-31")).res.status, 400);
+    assert.equal((await get("/api/events?dateFrom=2026-11-01&dateTo=2026-11-30&district=zzz")).res.status, 400);
+  });
+});
@@ -1,14 +1,164 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertUserSchema, insertFavoriteSchema, SearchParams } from "@shared/schema";
+import { insertUserSchema, insertFavoriteSchema, updateUserPreferencesSchema, insertSavedSearchSchema, updateSavedSearchSchema, insertDistrictSchema, updateDistrictSchema, reorderDistrictsSchema, User, UserResponse, SearchParams, Event, EventErrorResponse, EventSearchPage, EventCategory, eventCategories, EventSort, eventSorts, MAX_SEARCH_DAYS, searchSpanDays } from "@shared/schema";
 import { z } from "zod";
-import { fetchEvents, fetchEventById } from "./perplexityApi";
+import { normalizeDate } from "./eventValidation";
+import { searchEvents, fetchEventById, eventSearchCache, InvalidSearchError, ProviderBudget, ProviderBudgetError } from "./events";
+import { sortEvents } from "./eventSort";
+import { type Cursor, decodeCursor, encodeCursor, paginateEvents } from "./pagination";
+import { searchCacheKey } from "./searchCache";
+import { RateLimiter } from "./rateLimit";
+import { runSavedSearch, toSavedSearchResponse } from "./savedSearches";
+import { type CalendarOptions, eventsToCalendar } from "./icalendar";
+import { eventProvider } from "./eventProvider";
+import { getDistrictGeo } from "./districtGeo";
+import { childDistricts, parentAreaProblem, unknownDistricts } from "./districtHierarchy";
 import session from "express-session";
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
 import bcrypt from "bcryptjs";
 import MemoryStore from "memorystore";
+import crypto from "crypto";
+
+// Validate /api/events query parameters into SearchParams
+function parseSearchParams(query: Request["query"]): { params: SearchParams } | { error: string } {
+  // クエリパラメータを取得
+  const dateFrom = query.dateFrom as string;
+  const dateTo = query.dateTo as string;
+  // district=shibuya,toshima または district=shibuya&district=toshima
+  const districts = [query.district].flat()
+    .flatMap((value) => typeof value === "string" ? value.split(",") : [])
+    .map((value) => value.trim())
+    .filter((value) => value && value !== "all");
+  const q = typeof query.q === "string" ? query.q.trim() : undefined;
+  // category=music,art または category=music&category=art
+  const categories = [query.category].flat()
+    .flatMap((value) => typeof value === "string" ? value.split(",") : [])
+    .map((value) => value.trim())
+    .filter((value) => value && value !== "all");
+  const free = query.free === "true" || query.free === "1";
+  const evening = query.evening === "true" || query.evening === "1";
+  const weekend = query.weekend === "true" || query.weekend === "1";
+  const maxPrice = typeof query.maxPrice === "string" && query.maxPrice !== "" ? Number(query.maxPrice) : undefined;
+
+  // 日付パラメータのバリデーション
+  if (!dateFrom || !dateTo) {
+    return { error: "dateFrom and dateTo are required" };
+  }
+
+  // 日付形式の確認（YYYY-MM-DD形式かどうか）
+  const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+  if (!dateRegex.test(dateFrom) || !dateRegex.test(dateTo)) {
+    return { error: "Invalid date format. Please use YYYY-MM-DD format." };
+  }
+  // 実在する日付か（2026-13-45 などを除く）
+  if (normalizeDate(dateFrom) !== dateFrom || normalizeDate(dateTo) !== dateTo) {
+    return { error: "dateFrom and dateTo must be real calendar dates" };
+  }
+
+  // 日付の範囲チェック（dateFromがdateToより前であること）
+  const fromDate = new Date(dateFrom);
+  const toDate = new Date(dateTo);
+  if (fromDate > toDate) {
+    return { error: "dateFrom must be before or equal to dateTo" };
+  }
+
+  // 期間の上限（週ごと・地区ごとにプロバイダーへ問い合わせるため）
+  if (searchSpanDays(dateFrom, dateTo) > MAX_SEARCH_DAYS) {
+    return { error: `The date range must be at most ${MAX_SEARCH_DAYS} days` };
+  }
+
+  // キーワードの長さチェック
+  if (q && q.length > 100) {
+    return { error: "q must be at most 100 characters" };
+  }
+
+  // カテゴリーの確認
+  const unknownCategory = categories.find((value) => !(eventCategories as readonly string[]).includes(value));
+  if (unknownCategory) {
+    return { error: `Unknown category: ${unknownCategory}. Expected one of ${eventCategories.join(", ")}` };
+  }
+
+  // 料金上限の確認（円、0以上の整数）
+  if (maxPrice !== undefined && (!Number.isInteger(maxPrice) || maxPrice < 0)) {
+    return { error: "maxPrice must be a non-negative whole number of yen" };
+  }
+
+  return {
+    params: {
+      dateFrom,
+      dateTo,
+      district: districts.length > 0 ? Array.from(new Set(districts)).sort() : undefined,
+      q: q || undefined,
+      category: categories.length > 0
+        ? Array.from(new Set(categories as EventCategory[])).sort()
+        : undefined,
+      free: free || undefined,
+      maxPrice,
+      evening: evening || undefined,
+      weekend: weekend || undefined,
+    },
+  };
+}
+
+// Send an iCalendar document as a download
+function sendCalendar(
+  req: Request,
+  res: Response,
+  filename: string,
+  events: Event[],
+  options: Pick<CalendarOptions, "name" | "stamp"> = {},
+) {
+  const language = req.query.lang === "en" ? "en" : "ja";
+  const body = eventsToCalendar(events, {
+    ...options,
+    language,
+    eventUrl: (event) => `${req.protocol}://${req.get("host")}/event/${encodeURIComponent(event.id)}`,
+  });
+
+  res.set({
+    "Content-Type": "text/calendar; charset=utf-8",
+    "Content-Disposition": `attachment; filename="${filename.replace(/[^\w.-]/g, "_")}"`,
+  });
+  res.send(body);
+}
+
+function favoritesCalendarName(req: Request): string {
+  return req.query.lang === "en" ? "Tokyo Event Finder favorites" : "東京イベントファインダー お気に入り";
+}
+
+// Saved searches allowed per user
+const MAX_SAVED_SEARCHES = 20;
+
+// Default and maximum page sizes for /api/events
+const EVENTS_PAGE_SIZE = 20;
+const EVENTS_MAX_PAGE_SIZE = 100;
+
+// Parse the ordering and page of /api/events results. Both are applied to the
+// cached search response, so they are kept out of SearchParams and the cache key.
+function parseResultParams(query: Request["query"]):
+  { sort: EventSort; language: "ja" | "en"; limit: number; cursor: Cursor | null } | { error: string } {
+  const sort = typeof query.sort === "string" && query.sort !== "" ? query.sort : "start";
+  const language = typeof query.lang === "string" && query.lang !== "" ? query.lang : "ja";
+  const limit = typeof query.limit === "string" && query.limit !== "" ? Number(query.limit) : EVENTS_PAGE_SIZE;
+  const cursor = typeof query.cursor === "string" && query.cursor !== "" ? decodeCursor(query.cursor) : null;
+
+  if (!(eventSorts as readonly string[]).includes(sort)) {
+    return { error: `Unknown sort: ${sort}. Expected one of ${eventSorts.join(", ")}` };
+  }
+  if (language !== "ja" && language !== "en") {
+    return { error: "lang must be ja or en" };
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > EVENTS_MAX_PAGE_SIZE) {
+    return { error: `limit must be a whole number from 1 to ${EVENTS_MAX_PAGE_SIZE}` };
+  }
+  if (cursor === null && typeof query.cursor === "string" && query.cursor !== "") {
+    return { error: "Invalid cursor" };
+  }
+
+  return { sort: sort as EventSort, language, limit, cursor };
+}
 
 // Set up session store
 const SessionStore = MemoryStore(session);
@@ -76,6 +226,73 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.status(401).json({ message: "Unauthorized" });
   };
 
+  // Admin middleware - admins are listed by username in ADMIN_USERNAMES
+  const adminUsernames = (process.env.ADMIN_USERNAMES || "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  const isAdmin = (req: Request, res: Response, next: any) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    if (!adminUsernames.includes((req.user as any).username)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    next();
+  };
+
+  // A user for the client: the password hash is left out, and isAdmin tells it
+  // whether to show the admin pages
+  const userResponse = ({ password, ...user }: User): UserResponse => ({
+    ...user,
+    isAdmin: adminUsernames.includes(user.username),
+  });
+
+  // Anonymous callers are limited per IP: a short burst limit and a daily quota.
+  // Logged-in users are not limited.
+  const anonymousBurst = new RateLimiter(Number(process.env.ANON_RATE_LIMIT_PER_MINUTE ?? 20), 60 * 1000);
+  const anonymousDaily = new RateLimiter(Number(process.env.ANON_DAILY_QUOTA ?? 200), 24 * 60 * 60 * 1000);
+
+  const anonymousRateLimit = (req: Request, res: Response, next: any) => {
+    if (req.isAuthenticated()) {
+      return next();
+    }
+
+    const key = req.ip ?? "unknown";
+    // Only count against the daily quota requests that pass the burst limit
+    const daily = anonymousDaily.peek(key);
+    const limited = daily.allowed ? anonymousBurst.consume(key) : daily;
+    const quota = limited.allowed ? anonymousDaily.consume(key) : limited;
+
+    res.set({
+      "RateLimit-Limit": String(quota.limit),
+      "RateLimit-Remaining": String(quota.remaining),
+      "RateLimit-Reset": String(Math.ceil((quota.resetAt - Date.now()) / 1000)),
+    });
+
+    if (!limited.allowed) {
+      res.set("Retry-After", String(Math.ceil((limited.resetAt - Date.now()) / 1000)));
+      const body: EventErrorResponse = { message: "Too many requests. Log in to keep searching.", reason: "rate_limited" };
+      return res.status(429).json(body);
+    }
+    next();
+  };
+
+  // Provider calls that anonymous cache misses may make in total, across all IPs.
+  // A new keyword or range misses the cache, so the per-IP limits alone would
+  // still let many visitors run up the provider bill.
+  const anonymousProviderCalls = new RateLimiter(Number(process.env.ANON_PROVIDER_CALLS_PER_HOUR ?? 400), 60 * 60 * 1000);
+
+  const providerBudget = (req: Request): ProviderBudget | undefined =>
+    req.isAuthenticated() ? undefined : (calls) => anonymousProviderCalls.consume("anonymous", calls);
+
+  const sendProviderBusy = (res: Response, error: ProviderBudgetError) => {
+    res.set("Retry-After", String(Math.ceil((error.resetAt - Date.now()) / 1000)));
+    const body: EventErrorResponse = { message: error.message, reason: "rate_limited" };
+    res.status(429).json(body);
+  };
+
   // Auth routes
   app.post("/api/auth/register", async (req, res) => {
     try {
@@ -119,16 +336,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log("User created successfully:", { id: user.id, username: user.username });
       
-      // Omit password from response
-      const { password: _, ...userWithoutPassword } = user;
-      
       // Log in the user
       req.login(user, (err) => {
         if (err) {
           console.error("Login after registration failed:", err);
           return res.status(500).json({ message: "Login failed after registration" });
         }
-        return res.status(201).json(userWithoutPassword);
+        return res.status(201).json(userResponse(user));
       });
     } catch (error) {
       console.error("Registration error:", error);
@@ -151,9 +365,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (loginErr) {
           return res.status(500).json({ message: "Login failed" });
         }
-        // Omit password from response
-        const { password, ...userWithoutPassword } = user;
-        return res.json(userWithoutPassword);
+        return res.json(userResponse(user));
       });
     })(req, res, next);
   });
@@ -168,9 +380,73 @@ export async function registerRoutes(app: Express): Promise<Server> {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Not authenticated" });
     }
-    // Omit password from response
-    const { password, ...userWithoutPassword } = req.user as any;
-    res.json(userWithoutPassword);
+    res.json(userResponse(req.user as User));
+  });
+
+  app.patch("/api/auth/me/preferences", isAuthenticated, async (req, res) => {
+    try {
+      const parsed = updateUserPreferencesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Input validation failed",
+          errors: parsed.error.errors.map(err => ({
+            path: err.path.join('.'),
+            message: err.message
+          }))
+        });
+      }
+
+      const user = await storage.updateUserPreferences((req.user as any).id, parsed.data);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json(userResponse(user));
+    } catch (error) {
+      console.error("Error updating preferences:", error);
+      res.status(500).json({ message: "Failed to update preferences" });
+    }
+  });
+
+  // Favorites calendar feed token: POST issues a new one (revoking the old), DELETE turns the feed off
+  app.post("/api/auth/me/feed-token", isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.setFeedToken((req.user as any).id, crypto.randomBytes(24).toString("base64url"));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json(userResponse(user));
+    } catch (error) {
+      console.error("Error rotating feed token:", error);
+      res.status(500).json({ message: "Failed to create feed link" });
+    }
+  });
+
+  app.delete("/api/auth/me/feed-token", isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.setFeedToken((req.user as any).id, null);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json(userResponse(user));
+    } catch (error) {
+      console.error("Error revoking feed token:", error);
+      res.status(500).json({ message: "Failed to turn off feed link" });
+    }
+  });
+
+  // Health route
+  app.get("/api/health", (_req, res) => {
+    const breaker = eventProvider.breaker?.snapshot() ?? null;
+    res.json({
+      status: breaker && breaker.state !== "closed" ? "degraded" : "ok",
+      provider: {
+        name: eventProvider.name,
+        breaker,
+      },
+    });
   });
 
   // Districts routes
@@ -183,63 +459,238 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Events routes
-  app.get("/api/events", async (req, res) => {
+  // District boundaries and centroids for the map view
+  app.get("/api/districts/geo", async (_req, res) => {
     try {
-      // クエリパラメータを取得
-      const dateFrom = req.query.dateFrom as string;
-      const dateTo = req.query.dateTo as string;
-      const district = req.query.district as string | undefined;
+      const geo = await getDistrictGeo();
+      res.set("Cache-Control", "public, max-age=86400");
+      res.json(geo);
+    } catch (error) {
+      console.error("Error loading district boundaries:", error);
+      res.status(500).json({ message: "Failed to fetch district boundaries" });
+    }
+  });
 
-      // 日付パラメータのバリデーション
-      if (!dateFrom || !dateTo) {
-        return res.status(400).json({ message: "dateFrom and dateTo are required" });
+  // District management (admins only)
+  app.post("/api/districts", isAdmin, async (req, res) => {
+    try {
+      // displayOrder defaults to the end of the list
+      const parsed = insertDistrictSchema.partial({ displayOrder: true }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Input validation failed",
+          errors: parsed.error.errors.map(err => ({
+            path: err.path.join('.'),
+            message: err.message
+          }))
+        });
       }
 
-      // 日付形式の確認（YYYY-MM-DD形式かどうか）
-      const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-      if (!dateRegex.test(dateFrom) || !dateRegex.test(dateTo)) {
-        return res.status(400).json({ message: "Invalid date format. Please use YYYY-MM-DD format." });
+      const districts = await storage.getAllDistricts();
+      if (districts.some((district) => district.value === parsed.data.value)) {
+        return res.status(409).json({ message: `A district with value ${parsed.data.value} already exists` });
+      }
+      const problem = parentAreaProblem(districts, parsed.data.value, parsed.data.parentArea);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      const district = await storage.addDistrict({
+        ...parsed.data,
+        displayOrder: parsed.data.displayOrder ?? Math.max(0, ...districts.map((item) => item.displayOrder)) + 1,
+      });
+      res.status(201).json(district);
+    } catch (error) {
+      console.error("Error creating district:", error);
+      res.status(500).json({ message: "Failed to create district" });
+    }
+  });
+
+  // Reorder districts: ids lists every district in the new order
+  app.put("/api/districts/order", isAdmin, async (req, res) => {
+    try {
+      const parsed = reorderDistrictsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Input validation failed",
+          errors: parsed.error.errors.map(err => ({
+            path: err.path.join('.'),
+            message: err.message
+          }))
+        });
       }
 
-      // 日付の範囲チェック（dateFromがdateToより前であること）
-      const fromDate = new Date(dateFrom);
-      const toDate = new Date(dateTo);
-      if (fromDate > toDate) {
-        return res.status(400).json({ message: "dateFrom must be before or equal to dateTo" });
+      const { ids } = parsed.data;
+      const districts = await storage.getAllDistricts();
+      const known = new Set(districts.map((district) => district.id));
+      if (ids.length !== districts.length || new Set(ids).size !== ids.length || !ids.every((id) => known.has(id))) {
+        return res.status(400).json({ message: "ids must list every district exactly once" });
       }
 
-      const searchParams: SearchParams = {
-        dateFrom,
-        dateTo,
-        district,
-      };
+      await storage.reorderDistricts(ids);
+      res.json(await storage.getAllDistricts());
+    } catch (error) {
+      console.error("Error reordering districts:", error);
+      res.status(500).json({ message: "Failed to reorder districts" });
+    }
+  });
+
+  app.patch("/api/districts/:id", isAdmin, async (req, res) => {
+    try {
+      const parsed = updateDistrictSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Input validation failed",
+          errors: parsed.error.errors.map(err => ({
+            path: err.path.join('.'),
+            message: err.message
+          }))
+        });
+      }
+
+      const id = Number(req.params.id);
+      const district = Number.isInteger(id) ? await storage.getDistrict(id) : undefined;
+      if (!district) {
+        return res.status(404).json({ message: "District not found" });
+      }
+
+      if (parsed.data.parentArea !== undefined) {
+        const problem = parentAreaProblem(await storage.getAllDistricts(), district.value, parsed.data.parentArea);
+        if (problem) {
+          return res.status(400).json({ message: problem });
+        }
+      }
+
+      const updated = await storage.updateDistrict(district.id, parsed.data);
+      if (!updated) {
+        return res.status(404).json({ message: "District not found" });
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating district:", error);
+      res.status(500).json({ message: "Failed to update district" });
+    }
+  });
+
+  app.delete("/api/districts/:id", isAdmin, async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const district = Number.isInteger(id) ? await storage.getDistrict(id) : undefined;
+      if (!district) {
+        return res.status(404).json({ message: "District not found" });
+      }
+
+      // Wards and cities would be left without a parent
+      if (childDistricts(await storage.getAllDistricts(), district.value).length > 0) {
+        return res.status(409).json({ message: "Move or delete the districts inside this district first" });
+      }
+
+      await storage.deleteDistrict(district.id);
+      res.json({ message: "District deleted" });
+    } catch (error) {
+      console.error("Error deleting district:", error);
+      res.status(500).json({ message: "Failed to delete district" });
+    }
+  });
+
+  // Events routes
+  app.get("/api/events", anonymousRateLimit, async (req, res) => {
+    try {
+      const parsed = parseSearchParams(req.query);
+      if ("error" in parsed) {
+        return res.status(400).json({ message: parsed.error });
+      }
+      const searchParams = parsed.params;
+      const result = parseResultParams(req.query);
+      if ("error" in result) {
+        return res.status(400).json({ message: result.error });
+      }
+      const unknown = unknownDistricts(await storage.getAllDistricts(), searchParams.district);
+      if (unknown.length > 0) {
+        return res.status(400).json({ message: `Unknown district: ${unknown.join(", ")}` });
+      }
 
       console.log("Searching events with params:", searchParams);
-      const events = await fetchEvents(searchParams);
-      res.json(events);
+      const { entry, status } = await searchEvents(searchParams, providerBudget(req));
+      const sorted = await sortEvents(entry.value.events, result.sort, result.language);
+      const page = paginateEvents(sorted, result.limit, result.cursor);
+
+      // Let clients revalidate with If-None-Match; Express answers 304 when the ETag matches.
+      // Each ordering and page is a different representation of the cached response.
+      res.set({
+        "Cache-Control": `private, max-age=${eventSearchCache.remainingTtl(entry)}, stale-while-revalidate=${Math.floor(eventSearchCache.options.staleMs / 1000)}`,
+        "ETag": entry.etag.replace(/"$/, `-${result.sort}-${result.language}-${result.limit}-${result.cursor ? encodeCursor(result.cursor) : ""}"`),
+        "X-Cache": status.toUpperCase(),
+      });
+      const body: EventSearchPage = {
+        ...entry.value,
+        events: page.events,
+        total: sorted.length,
+        nextCursor: page.nextCursor,
+      };
+      res.json(body);
     } catch (error) {
+      if (error instanceof InvalidSearchError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof ProviderBudgetError) {
+        return sendProviderBusy(res, error);
+      }
       console.error("Error fetching events:", error);
       res.status(500).json({ message: "Failed to fetch events", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
-  app.get("/api/events/:id", async (req, res) => {
+  // Registered before /api/events/:id, which would otherwise match "<id>.ics"
+  app.get("/api/events/:id.ics", anonymousRateLimit, async (req, res) => {
+    try {
+      const event = await fetchEventById(req.params.id);
+      if (!event) {
+        const body: EventErrorResponse = { message: "Event not found", reason: "not_found" };
+        return res.status(404).json(body);
+      }
+
+      sendCalendar(req, res, `${event.id}.ics`, [event]);
+    } catch (error) {
+      console.error("Error exporting event:", error);
+      const body: EventErrorResponse = { message: "Event details are temporarily unavailable", reason: "unavailable" };
+      res.status(503).json(body);
+    }
+  });
+
+  app.get("/api/events/:id", anonymousRateLimit, async (req, res) => {
     try {
       const { id } = req.params;
       const event = await fetchEventById(id);
       
       if (!event) {
-        return res.status(404).json({ message: "Event not found" });
+        const body: EventErrorResponse = { message: "Event not found", reason: "not_found" };
+        return res.status(404).json(body);
       }
       
       res.json(event);
     } catch (error) {
       console.error("Error fetching event details:", error);
-      res.status(500).json({ message: "Failed to fetch event details" });
+      const body: EventErrorResponse = { message: "Event details are temporarily unavailable", reason: "unavailable" };
+      res.status(503).json(body);
     }
   });
 
+  // Admin routes
+  // Drop cached search results: all of them, or one search when dateFrom/dateTo are given
+  app.delete("/api/admin/cache/events", isAdmin, (req, res) => {
+    const parsed = req.query.dateFrom || req.query.dateTo ? parseSearchParams(req.query) : null;
+    if (parsed && "error" in parsed) {
+      return res.status(400).json({ message: parsed.error });
+    }
+
+    const invalidated = parsed
+      ? eventSearchCache.invalidate(searchCacheKey(parsed.params))
+      : eventSearchCache.invalidate();
+
+    res.json({ invalidated });
+  });
+
   // Favorites routes
   app.get("/api/favorites", isAuthenticated, async (req, res) => {
     try {
@@ -251,21 +702,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/favorites.ics", isAuthenticated, async (req, res) => {
+    try {
+      const favorites = await storage.getUserFavorites((req.user as any).id);
+      sendCalendar(req, res, "favorites.ics", favorites, { name: favoritesCalendarName(req) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export favorites" });
+    }
+  });
+
+  // Calendar feeds, authenticated by the secret token in the URL so calendar apps can poll them.
+  // Storage records when each feed's favorites last changed; that is served as
+  // Last-Modified (and as DTSTAMP, keeping the body stable).
+  app.get("/api/feeds/:token/favorites.ics", async (req, res) => {
+    try {
+      const user = await storage.getUserByFeedToken(req.params.token);
+      if (!user) {
+        return res.status(404).json({ message: "Feed not found" });
+      }
+
+      const favorites = await storage.getUserFavorites(user.id);
+      const hash = crypto.createHash("sha1").update(JSON.stringify(favorites)).digest("hex");
+      // HTTP dates have whole-second precision
+      const modifiedAt = await storage.recordFeedVersion(user.id, hash);
+      const lastModified = new Date(Math.floor(modifiedAt.getTime() / 1000) * 1000);
+      const variant = [hash, req.query.lang === "en" ? "en" : "ja", req.get("host")];
+      const etag = `"${crypto.createHash("sha1").update(JSON.stringify(variant)).digest("hex")}"`;
+
+      // Express answers 304 when If-None-Match or If-Modified-Since match
+      res.set({
+        "Cache-Control": "private, no-cache",
+        "ETag": etag,
+        "Last-Modified": lastModified.toUTCString(),
+      });
+      sendCalendar(req, res, "favorites.ics", favorites, {
+        name: favoritesCalendarName(req),
+        stamp: lastModified,
+      });
+    } catch (error) {
+      console.error("Error serving favorites feed:", error);
+      res.status(500).json({ message: "Failed to export favorites" });
+    }
+  });
+
   app.post("/api/favorites/:eventId", isAuthenticated, async (req, res) => {
     try {
       const userId = (req.user as any).id;
       const { eventId } = req.params;
       
-      // Check if already favorited
-      const existing = await storage.getFavorite(userId, eventId);
+      // Only persisted events can be favorited
+      const event = await storage.getEvent(eventId);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      // Check if already favorited, under either the requested or the canonical ID
+      const existing = await storage.getFavorite(userId, eventId) ||
+        await storage.getFavorite(userId, event.id);
       if (existing) {
         return res.status(400).json({ message: "Event already in favorites" });
       }
       
-      // Add favorite
+      // Add favorite under the canonical ID
       await storage.addFavorite({
         userId,
-        eventId,
+        eventId: event.id,
       });
       
       res.status(201).json({ message: "Added to favorites" });
@@ -279,8 +780,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = (req.user as any).id;
       const { eventId } = req.params;
       
-      // Remove favorite
+      // Remove favorite, including one saved under the canonical ID
       await storage.removeFavorite(userId, eventId);
+      const event = await storage.getEvent(eventId);
+      if (event && event.id !== eventId) {
+        await storage.removeFavorite(userId, event.id);
+      }
       
       res.json({ message: "Removed from favorites" });
     } catch (error) {
@@ -293,7 +798,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = (req.user as any).id;
       const { eventId } = req.params;
       
-      const favorite = await storage.getFavorite(userId, eventId);
+      // Favorites may be saved under the canonical ID or an alias
+      const event = await storage.getEvent(eventId);
+      const favorite = await storage.getFavorite(userId, eventId) ||
+        (event && event.id !== eventId ? await storage.getFavorite(userId, event.id) : undefined);
       
       res.json({ isFavorite: !!favorite });
     } catch (error) {
@@ -301,6 +809,145 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Saved searches routes
+  // Look up one of the logged-in user's saved searches, or answer 404
+  const findOwnSavedSearch = async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+    const savedSearch = Number.isInteger(id) ? await storage.getSavedSearch(id) : undefined;
+    if (!savedSearch || savedSearch.userId !== (req.user as any).id) {
+      res.status(404).json({ message: "Saved search not found" });
+      return undefined;
+    }
+    return savedSearch;
+  };
+
+  app.get("/api/saved-searches", isAuthenticated, async (req, res) => {
+    try {
+      const savedSearches = await storage.getSavedSearches((req.user as any).id);
+      res.json(savedSearches.map(toSavedSearchResponse));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch saved searches" });
+    }
+  });
+
+  app.post("/api/saved-searches", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const parsed = insertSavedSearchSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Input validation failed",
+          errors: parsed.error.errors.map(err => ({
+            path: err.path.join('.'),
+            message: err.message
+          }))
+        });
+      }
+
+      const unknown = unknownDistricts(await storage.getAllDistricts(), parsed.data.params.district);
+      if (unknown.length > 0) {
+        return res.status(400).json({ message: `Unknown district: ${unknown.join(", ")}` });
+      }
+
+      const existing = await storage.getSavedSearches(userId);
+      if (existing.length >= MAX_SAVED_SEARCHES) {
+        return res.status(400).json({ message: `You can save up to ${MAX_SAVED_SEARCHES} searches` });
+      }
+
+      const savedSearch = await storage.createSavedSearch(userId, parsed.data);
+
+      // Record what the search finds now, so only later events count as new
+      runSavedSearch(savedSearch).catch((error) => {
+        console.error(`Saved search ${savedSearch.id} failed:`, error);
+      });
+
+      res.status(201).json(toSavedSearchResponse(savedSearch));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to save search" });
+    }
+  });
+
+  app.patch("/api/saved-searches/:id", isAuthenticated, async (req, res) => {
+    try {
+      const parsed = updateSavedSearchSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Input validation failed",
+          errors: parsed.error.errors.map(err => ({
+            path: err.path.join('.'),
+            message: err.message
+          }))
+        });
+      }
+
+      const unknown = unknownDistricts(await storage.getAllDistricts(), parsed.data.params?.district);
+      if (unknown.length > 0) {
+        return res.status(400).json({ message: `Unknown district: ${unknown.join(", ")}` });
+      }
+
+      const savedSearch = await findOwnSavedSearch(req, res);
+      if (!savedSearch) {
+        return;
+      }
+
+      // A changed search starts over with a new baseline
+      const searchChanged = parsed.data.params !== undefined || parsed.data.rolling !== undefined;
+      const updated = await storage.updateSavedSearch(savedSearch.id, {
+        ...parsed.data,
+        ...(searchChanged ? { seenEventIds: [], newEventIds: [], lastRunAt: null } : {}),
+      });
+      if (!updated) {
+        return res.status(404).json({ message: "Saved search not found" });
+      }
+
+      if (searchChanged) {
+        runSavedSearch(updated).catch((error) => {
+          console.error(`Saved search ${updated.id} failed:`, error);
+        });
+      }
+
+      res.json(toSavedSearchResponse(updated));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update saved search" });
+    }
+  });
+
+  // Mark the new events of a saved search as seen
+  app.post("/api/saved-searches/:id/viewed", isAuthenticated, async (req, res) => {
+    try {
+      const savedSearch = await findOwnSavedSearch(req, res);
+      if (!savedSearch) {
+        return;
+      }
+
+      const updated = await storage.updateSavedSearch(savedSearch.id, {
+        newEventIds: [],
+        lastViewedAt: new Date(),
+      });
+      if (!updated) {
+        return res.status(404).json({ message: "Saved search not found" });
+      }
+
+      res.json(toSavedSearchResponse(updated));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update saved search" });
+    }
+  });
+
+  app.delete("/api/saved-searches/:id", isAuthenticated, async (req, res) => {
+    try {
+      const savedSearch = await findOwnSavedSearch(req, res);
+      if (!savedSearch) {
+        return;
+      }
+
+      await storage.deleteSavedSearch(savedSearch.id);
+      res.json({ message: "Saved search deleted" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete saved search" });
+    }
+  });
+
   const httpServer = createServer(app);
 
   return httpServer;
@@ -0,0 +1,136 @@
+import { SavedSearch, SavedSearchResponse, SearchParams, MAX_SEARCH_DAYS, searchSpanDays } from "@shared/schema";
+import { storage } from "./storage";
+import { searchEvents } from "./events";
+import { searchCacheKey } from "./searchCache";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How often the background job re-runs every saved search
+const SAVED_SEARCH_INTERVAL_MINUTES = Number(process.env.SAVED_SEARCH_INTERVAL_MINUTES ?? 360);
+// Event IDs remembered per saved search; the oldest are forgotten first
+const MAX_SEEN_EVENT_IDS = 1000;
+
+// Today's date in Tokyo (UTC+9) as YYYY-MM-DD
+function todayInTokyo(now: Date): string {
+  return new Date(now.getTime() + 9 * 60 * 60 * 1000).toISOString().split("T")[0];
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().split("T")[0];
+}
+
+// Saved searches from before multi-district search hold a single district
+function storedParams(params: SearchParams): SearchParams {
+  const district: string | string[] | undefined = params.district;
+  return typeof district === "string" ? { ...params, district: [district] } : params;
+}
+
+// The search a saved search runs now. Rolling searches keep the length of
+// their range but start today; fixed ones keep their dates.
+export function currentSearchParams(savedSearch: Pick<SavedSearch, "params" | "rolling">, now = new Date()): SearchParams {
+  const params = storedParams(savedSearch.params);
+  if (!savedSearch.rolling) {
+    return params;
+  }
+
+  const days = Math.round((Date.parse(params.dateTo) - Date.parse(params.dateFrom)) / DAY_MS);
+  const today = todayInTokyo(now);
+  return { ...params, dateFrom: today, dateTo: addDays(today, days) };
+}
+
+// Shape a saved search for the API, leaving out the seen event IDs
+export function toSavedSearchResponse(savedSearch: SavedSearch): SavedSearchResponse {
+  return {
+    id: savedSearch.id,
+    name: savedSearch.name,
+    params: storedParams(savedSearch.params),
+    rolling: savedSearch.rolling,
+    currentParams: currentSearchParams(savedSearch),
+    newEventIds: savedSearch.newEventIds,
+    lastRunAt: savedSearch.lastRunAt?.toISOString() ?? null,
+    lastViewedAt: savedSearch.lastViewedAt.toISOString(),
+    createdAt: savedSearch.createdAt.toISOString(),
+  };
+}
+
+// Re-run one saved search and record the events no earlier run has returned.
+// The first run only records a baseline, so nothing is new until the second.
+export async function runSavedSearch(savedSearch: SavedSearch): Promise<SavedSearch | undefined> {
+  const params = currentSearchParams(savedSearch);
+  if (!savedSearch.rolling && params.dateTo < todayInTokyo(new Date())) {
+    return savedSearch; // 期間が終了した検索は実行しない
+  }
+  // Saved before searches had a maximum range
+  if (searchSpanDays(params.dateFrom, params.dateTo) > MAX_SEARCH_DAYS) {
+    console.warn(`Saved search ${savedSearch.id} covers more than ${MAX_SEARCH_DAYS} days; not running it`);
+    return savedSearch;
+  }
+
+  const { entry } = await searchEvents(params);
+  const ids = entry.value.events.map((event) => event.id);
+
+  // The search can take minutes. Merge into the row as it is now, so new events
+  // cleared meanwhile stay cleared, and leave a row whose search was changed
+  // meanwhile to the run that change started.
+  const fresh = await storage.getSavedSearch(savedSearch.id);
+  if (!fresh) {
+    return undefined;
+  }
+  if (fresh.rolling !== savedSearch.rolling ||
+      searchCacheKey(storedParams(fresh.params)) !== searchCacheKey(storedParams(savedSearch.params))) {
+    return fresh;
+  }
+
+  const seen = new Set(fresh.seenEventIds);
+  const appeared = ids.filter((id) => !seen.has(id));
+
+  const newEventIds = fresh.lastRunAt
+    ? Array.from(new Set([...fresh.newEventIds, ...appeared]))
+    : [];
+
+  return storage.updateSavedSearch(fresh.id, {
+    seenEventIds: [...fresh.seenEventIds, ...appeared].slice(-MAX_SEEN_EVENT_IDS),
+    newEventIds,
+    lastRunAt: new Date(),
+  });
+}
+
+// Re-run every saved search one at a time, so the job never floods the event provider
+export async function runSavedSearches(): Promise<void> {
+  const all = await storage.getAllSavedSearches();
+  let newEvents = 0;
+
+  for (const savedSearch of all) {
+    try {
+      const updated = await runSavedSearch(savedSearch);
+      newEvents += (updated?.newEventIds.length ?? 0) - savedSearch.newEventIds.length;
+    } catch (error) {
+      console.error(`Saved search ${savedSearch.id} failed:`, error);
+    }
+  }
+
+  console.log(`Re-ran ${all.length} saved searches: ${newEvents} new events`);
+}
+
+// Start the background job. Set SAVED_SEARCH_INTERVAL_MINUTES=0 to disable it.
+export function startSavedSearchJob(): void {
+  if (!(SAVED_SEARCH_INTERVAL_MINUTES > 0)) {
+    return;
+  }
+
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) {
+      return; // the previous run is still going
+    }
+    running = true;
+    try {
+      await runSavedSearches();
+    } catch (error) {
+      console.error("Saved search job failed:", error);
+    } finally {
+      running = false;
+    }
+  }, SAVED_SEARCH_INTERVAL_MINUTES * 60 * 1000);
+  timer.unref();
+}
@@ -0,0 +1,121 @@
+import crypto from "crypto";
+
+export interface CacheEntry<T> {
+  value: T;
+  etag: string;
+  storedAt: number;
+}
+
+export type CacheStatus = "hit" | "stale" | "miss";
+
+interface SearchCacheOptions {
+  ttlMs: number; // how long an entry is served as fresh
+  staleMs: number; // how long past the TTL a stale entry is served while refreshing
+  maxEntries: number;
+}
+
+// In-memory cache with TTL and stale-while-revalidate semantics.
+// Concurrent loads of the same key share a single in-flight promise.
+export class SearchCache<T> {
+  private entries: Map<string, CacheEntry<T>>;
+  private pending: Map<string, Promise<CacheEntry<T>>>;
+
+  constructor(readonly options: SearchCacheOptions) {
+    this.entries = new Map();
+    this.pending = new Map();
+  }
+
+  // Return the cached value for key, loading or refreshing it as needed
+  async get(key: string, load: () => Promise<T>): Promise<{ entry: CacheEntry<T>; status: CacheStatus }> {
+    const entry = this.entries.get(key);
+    const age = entry ? Date.now() - entry.storedAt : Infinity;
+
+    if (entry && age <= this.options.ttlMs) {
+      return { entry, status: "hit" };
+    }
+
+    if (entry && age <= this.options.ttlMs + this.options.staleMs) {
+      // Serve the stale entry and refresh in the background
+      this.refresh(key, load).catch((error) => {
+        console.error(`Background refresh failed for ${key}:`, error);
+      });
+      return { entry, status: "stale" };
+    }
+
+    return { entry: await this.refresh(key, load), status: "miss" };
+  }
+
+  // Drop one key, or every entry when no key is given. Returns the number removed.
+  invalidate(key?: string): number {
+    if (key === undefined) {
+      const count = this.entries.size;
+      this.entries.clear();
+      return count;
+    }
+    return this.entries.delete(key) ? 1 : 0;
+  }
+
+  // Seconds the entry remains fresh
+  remainingTtl(entry: CacheEntry<T>): number {
+    return Math.max(0, Math.floor((entry.storedAt + this.options.ttlMs - Date.now()) / 1000));
+  }
+
+  private refresh(key: string, load: () => Promise<T>): Promise<CacheEntry<T>> {
+    const inFlight = this.pending.get(key);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const promise = load()
+      .then((value) => {
+        const entry: CacheEntry<T> = {
+          value,
+          etag: `"${crypto.createHash("sha1").update(JSON.stringify(value)).digest("base64url")}"`,
+          storedAt: Date.now(),
+        };
+
+        // Evict the oldest entry once full
+        this.entries.delete(key);
+        if (this.entries.size >= this.options.maxEntries) {
+          const oldest = this.entries.keys().next().value;
+          if (oldest !== undefined) {
+            this.entries.delete(oldest);
+          }
+        }
+        this.entries.set(key, entry);
+
+        return entry;
+      })
+      .finally(() => {
+        this.pending.delete(key);
+      });
+
+    this.pending.set(key, promise);
+    return promise;
+  }
+}
+
+// Build a stable cache key from search parameters: keys sorted, strings trimmed
+// and lower-cased, arrays sorted, and empty or "all" values dropped
+export function searchCacheKey(params: object): string {
+  const normalized: Record<string, unknown> = {};
+
+  for (const key of Object.keys(params).sort()) {
+    let value: unknown = (params as Record<string, unknown>)[key];
+
+    if (typeof value === "string") {
+      value = value.trim().toLowerCase();
+    } else if (Array.isArray(value)) {
+      value = value.map((item) => (typeof item === "string" ? item.trim().toLowerCase() : item)).sort();
+    }
+
+    if (value === undefined || value === null || value === "" || value === "all" ||
+        (Array.isArray(value) && value.length === 0)) {
+      continue;
+    }
+
+    normalized[key] = value;
+  }
+
+  return JSON.stringify(normalized);
+}
@@ -0,0 +1,44 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Split an inclusive YYYY-MM-DD range into consecutive ranges of at most `days` days
+export function splitDateRange(dateFrom: string, dateTo: string, days: number): { dateFrom: string; dateTo: string }[] {
+  if (!Number.isInteger(days) || days < 1) {
+    throw new RangeError(`Chunk length must be a whole number of days, at least 1 (got ${days})`);
+  }
+  const ranges: { dateFrom: string; dateTo: string }[] = [];
+  const end = Date.parse(`${dateTo}T00:00:00Z`);
+
+  for (let start = Date.parse(`${dateFrom}T00:00:00Z`); start <= end; start += days * DAY_MS) {
+    const chunkEnd = Math.min(start + (days - 1) * DAY_MS, end);
+    ranges.push({
+      dateFrom: new Date(start).toISOString().split("T")[0],
+      dateTo: new Date(chunkEnd).toISOString().split("T")[0],
+    });
+  }
+
+  return ranges;
+}
+
+// Run fn over items with at most `limit` calls in flight, settling every call
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: "fulfilled", value: await fn(items[index]) };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,217 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { createRequire } from "module";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+import type { Event } from "@shared/schema";
+import { DrizzleStorage, MemStorage, type IStorage } from "./storage";
+import type { Database } from "./db";
+
+// drizzle-kit's ESM build cannot load its own dependencies, so use the CommonJS one
+const require = createRequire(import.meta.url);
+const { generateDrizzleJson, generateMigration } = require("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+// An in-process Postgres with the tables `npm run db:push` would create
+async function createPgliteDb(): Promise<Database> {
+  const client = new PGlite();
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+  return drizzle(client, { schema }) as unknown as Database;
+}
+
+function testEvent(overrides: Partial<Event> = {}): Event {
+  return {
+    id: "ev-test",
+    titleJa: "テストイベント",
+    titleEn: "Test event",
+    descriptionJa: "",
+    descriptionEn: "",
+    startDate: "2026-11-10",
+    endDate: null,
+    startTime: null,
+    endTime: null,
+    sessions: [],
+    location: "テスト会場",
+    district: "minato",
+    lat: null,
+    lng: null,
+    imageUrl: "",
+    category: "other",
+    tags: [],
+    isFree: null,
+    priceMin: null,
+    priceMax: null,
+    currency: "JPY",
+    ticketUrl: "",
+    bookingRequired: null,
+    synthetic: false,
+    ...overrides,
+  };
+}
+
+// Both storage drivers must behave the same through IStorage
+function storageSuite(name: string, createStorage: () => Promise<IStorage>) {
+  describe(name, () => {
+    let storage: IStorage;
+
+    before(async () => {
+      storage = await createStorage();
+    });
+
+    it("seeds the district hierarchy", async () => {
+      const districts = await storage.getAllDistricts();
+      assert.equal(districts.length, 63);
+      assert.equal((await storage.getDistrictByValue("minato"))?.parentArea, "central");
+      assert.deepEqual(
+        districts.filter((district) => district.parentArea === "").map((district) => district.value),
+        ["23-wards", "tama-region"],
+      );
+    });
+
+    it("adds, updates, reorders and deletes districts", async () => {
+      const added = await storage.addDistrict({ value: "islands", nameJa: "島しょ", nameEn: "Islands", parentArea: "", displayOrder: 64 });
+      assert.equal((await storage.getDistrict(added.id))?.value, "islands");
+
+      const updated = await storage.updateDistrict(added.id, { nameEn: "Tokyo Islands" });
+      assert.equal(updated?.nameEn, "Tokyo Islands");
+      assert.equal(await storage.updateDistrict(99999, { nameEn: "x" }), undefined);
+
+      const ids = (await storage.getAllDistricts()).map((district) => district.id).reverse();
+      await storage.reorderDistricts(ids);
+      const reordered = await storage.getAllDistricts();
+      assert.deepEqual(reordered.map((district) => district.id), ids);
+      assert.deepEqual(reordered.map((district) => district.displayOrder), ids.map((_, index) => index + 1));
+
+      await storage.deleteDistrict(added.id);
+      assert.equal(await storage.getDistrict(added.id), undefined);
+    });
+
+    it("creates users and updates their preferences and feed token", async () => {
+      const user = await storage.createUser({ username: "alice", password: "hash" });
+      assert.equal((await storage.getUserByUsername("alice"))?.id, user.id);
+      assert.equal((await storage.getUser(user.id))?.preferredSort, "start");
+
+      assert.equal((await storage.updateUserPreferences(user.id, { preferredSort: "end" }))?.preferredSort, "end");
+
+      await storage.setFeedToken(user.id, "token-1");
+      assert.equal((await storage.getUserByFeedToken("token-1"))?.id, user.id);
+      await storage.setFeedToken(user.id, null);
+      assert.equal(await storage.getUserByFeedToken("token-1"), undefined);
+    });
+
+    it("merges upserted events and resolves aliases", async () => {
+      await storage.upsertEvents([testEvent({ isFree: false, priceMin: 500, tags: ["a"] })], "test");
+      await storage.upsertEvents([testEvent({ endDate: "2026-11-20", isFree: true, tags: [] })], "test");
+      await storage.addEventAliases([{ alias: "provider-1", eventId: "ev-test" }]);
+
+      const event = await storage.getEvent("provider-1");
+      assert.equal(event?.id, "ev-test");
+      assert.equal(event?.endDate, "2026-11-20");
+      assert.deepEqual(event?.tags, ["a"]);
+      // Admission comes from one record
+      assert.equal(event?.isFree, true);
+      assert.equal(event?.priceMin, null);
+
+      assert.deepEqual(Array.from((await storage.getEventFetchTimes(["ev-test", "ev-none"])).keys()), ["ev-test"]);
+    });
+
+    it("finds stored events by range and district scope", async () => {
+      const found = await storage.findEvents({ dateFrom: "2026-11-15", dateTo: "2026-11-30", district: ["23-wards"] });
+      assert.deepEqual(found.map((event) => event.id), ["ev-test"]);
+      assert.deepEqual(await storage.findEvents({ dateFrom: "2026-11-15", dateTo: "2026-11-30", district: ["tama-region"] }), []);
+      assert.deepEqual(await storage.findEvents({ dateFrom: "2026-12-01", dateTo: "2026-12-31" }), []);
+    });
+
+    it("keeps favorites per user", async () => {
+      const user = await storage.createUser({ username: "bob", password: "hash" });
+      await storage.addFavorite({ userId: user.id, eventId: "provider-1" });
+      assert.ok(await storage.getFavorite(user.id, "provider-1"));
+      assert.deepEqual((await storage.getUserFavorites(user.id)).map((event) => event.id), ["ev-test"]);
+
+      await storage.removeFavorite(user.id, "provider-1");
+      assert.equal(await storage.getFavorite(user.id, "provider-1"), undefined);
+    });
+
+    it("keeps a feed's modification time until its content hash changes", async () => {
+      const user = await storage.createUser({ username: "dave", password: "hash" });
+      const first = await storage.recordFeedVersion(user.id, "a");
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      assert.equal((await storage.recordFeedVersion(user.id, "a")).getTime(), first.getTime());
+
+      const changed = await storage.recordFeedVersion(user.id, "b");
+      assert.ok(changed > first);
+      assert.equal((await storage.recordFeedVersion(user.id, "b")).getTime(), changed.getTime());
+    });
+
+    it("creates, updates and deletes saved searches", async () => {
+      const user = await storage.createUser({ username: "carol", password: "hash" });
+      const saved = await storage.createSavedSearch(user.id, {
+        name: "Minato",
+        params: { dateFrom: "2026-11-01", dateTo: "2026-11-07", district: ["minato"] },
+        rolling: true,
+      });
+      assert.deepEqual((await storage.getSavedSearches(user.id)).map((search) => search.id), [saved.id]);
+      assert.ok((await storage.getAllSavedSearches()).some((search) => search.id === saved.id));
+
+      const updated = await storage.updateSavedSearch(saved.id, { newEventIds: ["ev-test"], lastRunAt: new Date() });
+      assert.deepEqual(updated?.newEventIds, ["ev-test"]);
+      assert.deepEqual((await storage.getSavedSearch(saved.id))?.params.district, ["minato"]);
+
+      await storage.deleteSavedSearch(saved.id);
+      assert.equal(await storage.getSavedSearch(saved.id), undefined);
+    });
+  });
+}
+
+storageSuite("MemStorage", async () => {
+  const storage = new MemStorage();
+  await new Promise((resolve) => setTimeout(resolve, 0)); // let the district seed finish
+  return storage;
+});
+
+storageSuite("DrizzleStorage (pglite)", async () => new DrizzleStorage(await createPgliteDb()));
+
+describe("DrizzleStorage seeding", () => {
+  it("seeds once and keeps admin edits on the next start", async () => {
+    const db = await createPgliteDb();
+    const first = new DrizzleStorage(db);
+    const minato = await first.getDistrictByValue("minato");
+    assert.ok(minato);
+    await first.updateDistrict(minato.id, { nameEn: "Minato City" });
+    const chiyoda = await first.getDistrictByValue("chiyoda");
+    await first.deleteDistrict(chiyoda!.id);
+
+    const second = new DrizzleStorage(db);
+    const districts = await second.getAllDistricts();
+    assert.equal(districts.length, 62);
+    assert.equal(districts.find((district) => district.value === "minato")?.nameEn, "Minato City");
+    assert.equal(districts.some((district) => district.value === "chiyoda"), false);
+  });
+
+  it("moves the old flat seed into the hierarchy", async () => {
+    const db = await createPgliteDb();
+    await db.insert(schema.districts).values([
+      { value: "central", nameJa: "都心エリア", nameEn: "Central Area", parentArea: "23区", displayOrder: 1 },
+    ]);
+
+    const storage = new DrizzleStorage(db);
+    const districts = await storage.getAllDistricts();
+    assert.equal(districts.length, 63);
+    assert.equal(districts.find((district) => district.value === "central")?.parentArea, "23-wards");
+  });
+
+  it("retries the seed after a failure", async () => {
+    const client = new PGlite();
+    const storage = new DrizzleStorage(drizzle(client, { schema }) as unknown as Database);
+    await assert.rejects(storage.getAllDistricts());
+
+    const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+    for (const statement of statements) {
+      await client.exec(statement);
+    }
+    assert.equal((await storage.getAllDistricts()).length, 63);
+  });
+});
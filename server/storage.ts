@@ -1,5 +1,9 @@
-import { users, type User, type InsertUser, favorites, InsertFavorite, Favorite, districts, District, InsertDistrict, Event } from "@shared/schema";
-import bcrypt from "bcryptjs";
+import { users, type User, type InsertUser, type UserPreferences, favorites, InsertFavorite, Favorite, feedVersions, savedSearches, SavedSearch, InsertSavedSearch, districts, District, InsertDistrict, UpdateDistrict, events, Event, StoredEvent, eventAliases, EventAlias, SearchParams } from "@shared/schema";
+import { and, asc, eq, gte, inArray, lte, or, sql } from "drizzle-orm";
+import { createDb, type Database } from "./db";
+import { mergeEvents } from "./eventIdentity";
+import { matchesFilters } from "./textSearch";
+import { districtScope } from "./districtHierarchy";
 
 // Interface for storage operations
 export interface IStorage {
@@ -7,36 +11,147 @@ export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUserPreferences(id: number, preferences: UserPreferences): Promise<User | undefined>;
+  getUserByFeedToken(token: string): Promise<User | undefined>;
+  setFeedToken(id: number, token: string | null): Promise<User | undefined>; // null turns the feed off
   
   // Favorites operations
   getUserFavorites(userId: number): Promise<Event[]>;
   getFavorite(userId: number, eventId: string): Promise<Favorite | undefined>;
   addFavorite(favorite: InsertFavorite): Promise<Favorite>;
   removeFavorite(userId: number, eventId: string): Promise<void>;
+  recordFeedVersion(userId: number, hash: string): Promise<Date>; // when the feed content with this hash first appeared
+
+  // Saved searches operations
+  getSavedSearches(userId: number): Promise<SavedSearch[]>;
+  getAllSavedSearches(): Promise<SavedSearch[]>; // every user's, for the background job
+  getSavedSearch(id: number): Promise<SavedSearch | undefined>;
+  createSavedSearch(userId: number, savedSearch: InsertSavedSearch): Promise<SavedSearch>;
+  updateSavedSearch(id: number, changes: SavedSearchChanges): Promise<SavedSearch | undefined>;
+  deleteSavedSearch(id: number): Promise<void>;
   
   // Districts operations
   getAllDistricts(): Promise<District[]>;
+  getDistrict(id: number): Promise<District | undefined>;
   getDistrictByValue(value: string): Promise<District | undefined>;
   addDistrict(district: InsertDistrict): Promise<District>;
+  updateDistrict(id: number, changes: UpdateDistrict): Promise<District | undefined>;
+  deleteDistrict(id: number): Promise<void>;
+  reorderDistricts(ids: number[]): Promise<void>; // displayOrder follows the position in ids
+
+  // Events operations
+  getEvent(id: string): Promise<Event | undefined>; // accepts canonical IDs and aliases
+  findEvents(params: SearchParams): Promise<Event[]>; // stored events overlapping the search
+  getEventFetchTimes(ids: string[]): Promise<Map<string, Date>>; // when each stored event was first fetched
+  upsertEvents(events: Event[], source: string): Promise<void>;
+  addEventAliases(aliases: EventAlias[]): Promise<void>; // existing aliases are never re-pointed
+}
+
+// Fields of a saved search that can change after it is created
+export type SavedSearchChanges = Partial<Omit<SavedSearch, "id" | "userId" | "createdAt">>;
+
+// Strip persistence metadata from a stored event row
+function toEvent({ source, fetchedAt, lastSeenAt, ...event }: StoredEvent): Event {
+  return event;
 }
 
+// Default districts seeded into every storage backend. They form a tree through
+// parentArea, which holds the parent's value: region → area → ward or city.
+// Regions have an empty parentArea.
+const defaultDistricts: InsertDistrict[] = [
+  // 23 Wards
+  { nameJa: '23区', nameEn: '23 Wards', parentArea: '', displayOrder: 1, value: '23-wards' },
+  { nameJa: '都心エリア', nameEn: 'Central Area', parentArea: '23-wards', displayOrder: 2, value: 'central' },
+  { nameJa: '千代田区', nameEn: 'Chiyoda', parentArea: 'central', displayOrder: 3, value: 'chiyoda' },
+  { nameJa: '中央区', nameEn: 'Chuo', parentArea: 'central', displayOrder: 4, value: 'chuo' },
+  { nameJa: '港区', nameEn: 'Minato', parentArea: 'central', displayOrder: 5, value: 'minato' },
+  { nameJa: '新宿・渋谷エリア', nameEn: 'Shinjuku & Shibuya Area', parentArea: '23-wards', displayOrder: 6, value: 'shinjuku-shibuya' },
+  { nameJa: '新宿区', nameEn: 'Shinjuku', parentArea: 'shinjuku-shibuya', displayOrder: 7, value: 'shinjuku' },
+  { nameJa: '渋谷区', nameEn: 'Shibuya', parentArea: 'shinjuku-shibuya', displayOrder: 8, value: 'shibuya' },
+  { nameJa: '池袋・上野エリア', nameEn: 'Ikebukuro & Ueno Area', parentArea: '23-wards', displayOrder: 9, value: 'ikebukuro-ueno' },
+  { nameJa: '豊島区', nameEn: 'Toshima', parentArea: 'ikebukuro-ueno', displayOrder: 10, value: 'toshima' },
+  { nameJa: '台東区', nameEn: 'Taito', parentArea: 'ikebukuro-ueno', displayOrder: 11, value: 'taito' },
+  { nameJa: '城南エリア', nameEn: 'South Area', parentArea: '23-wards', displayOrder: 12, value: 'south' },
+  { nameJa: '品川区', nameEn: 'Shinagawa', parentArea: 'south', displayOrder: 13, value: 'shinagawa' },
+  { nameJa: '目黒区', nameEn: 'Meguro', parentArea: 'south', displayOrder: 14, value: 'meguro' },
+  { nameJa: '大田区', nameEn: 'Ota', parentArea: 'south', displayOrder: 15, value: 'ota' },
+  { nameJa: 'その他の23区', nameEn: 'Other Wards', parentArea: '23-wards', displayOrder: 16, value: 'north-east' },
+  { nameJa: '文京区', nameEn: 'Bunkyo', parentArea: 'north-east', displayOrder: 17, value: 'bunkyo' },
+  { nameJa: '墨田区', nameEn: 'Sumida', parentArea: 'north-east', displayOrder: 18, value: 'sumida' },
+  { nameJa: '江東区', nameEn: 'Koto', parentArea: 'north-east', displayOrder: 19, value: 'koto' },
+  { nameJa: '世田谷区', nameEn: 'Setagaya', parentArea: 'north-east', displayOrder: 20, value: 'setagaya' },
+  { nameJa: '中野区', nameEn: 'Nakano', parentArea: 'north-east', displayOrder: 21, value: 'nakano' },
+  { nameJa: '杉並区', nameEn: 'Suginami', parentArea: 'north-east', displayOrder: 22, value: 'suginami' },
+  { nameJa: '北区', nameEn: 'Kita', parentArea: 'north-east', displayOrder: 23, value: 'kita' },
+  { nameJa: '荒川区', nameEn: 'Arakawa', parentArea: 'north-east', displayOrder: 24, value: 'arakawa' },
+  { nameJa: '板橋区', nameEn: 'Itabashi', parentArea: 'north-east', displayOrder: 25, value: 'itabashi' },
+  { nameJa: '練馬区', nameEn: 'Nerima', parentArea: 'north-east', displayOrder: 26, value: 'nerima' },
+  { nameJa: '足立区', nameEn: 'Adachi', parentArea: 'north-east', displayOrder: 27, value: 'adachi' },
+  { nameJa: '葛飾区', nameEn: 'Katsushika', parentArea: 'north-east', displayOrder: 28, value: 'katsushika' },
+  { nameJa: '江戸川区', nameEn: 'Edogawa', parentArea: 'north-east', displayOrder: 29, value: 'edogawa' },
+
+  // Tama Region
+  { nameJa: '多摩地域', nameEn: 'Tama Region', parentArea: '', displayOrder: 30, value: 'tama-region' },
+  { nameJa: '多摩西部', nameEn: 'Tama West', parentArea: 'tama-region', displayOrder: 31, value: 'tama-west' },
+  { nameJa: '八王子市', nameEn: 'Hachioji', parentArea: 'tama-west', displayOrder: 32, value: 'hachioji' },
+  { nameJa: '立川市', nameEn: 'Tachikawa', parentArea: 'tama-west', displayOrder: 33, value: 'tachikawa' },
+  { nameJa: '青梅市', nameEn: 'Ome', parentArea: 'tama-west', displayOrder: 34, value: 'ome' },
+  { nameJa: '日野市', nameEn: 'Hino', parentArea: 'tama-west', displayOrder: 35, value: 'hino' },
+  { nameJa: '昭島市', nameEn: 'Akishima', parentArea: 'tama-west', displayOrder: 36, value: 'akishima' },
+  { nameJa: '福生市', nameEn: 'Fussa', parentArea: 'tama-west', displayOrder: 37, value: 'fussa' },
+  { nameJa: '羽村市', nameEn: 'Hamura', parentArea: 'tama-west', displayOrder: 38, value: 'hamura' },
+  { nameJa: 'あきる野市', nameEn: 'Akiruno', parentArea: 'tama-west', displayOrder: 39, value: 'akiruno' },
+  { nameJa: '瑞穂町', nameEn: 'Mizuho', parentArea: 'tama-west', displayOrder: 40, value: 'mizuho' },
+  { nameJa: '日の出町', nameEn: 'Hinode', parentArea: 'tama-west', displayOrder: 41, value: 'hinode' },
+  { nameJa: '檜原村', nameEn: 'Hinohara', parentArea: 'tama-west', displayOrder: 42, value: 'hinohara' },
+  { nameJa: '奥多摩町', nameEn: 'Okutama', parentArea: 'tama-west', displayOrder: 43, value: 'okutama' },
+  { nameJa: '多摩南部', nameEn: 'Tama South', parentArea: 'tama-region', displayOrder: 44, value: 'tama-south' },
+  { nameJa: '町田市', nameEn: 'Machida', parentArea: 'tama-south', displayOrder: 45, value: 'machida' },
+  { nameJa: '多摩市', nameEn: 'Tama', parentArea: 'tama-south', displayOrder: 46, value: 'tama' },
+  { nameJa: '稲城市', nameEn: 'Inagi', parentArea: 'tama-south', displayOrder: 47, value: 'inagi' },
+  { nameJa: '多摩北部', nameEn: 'Tama North', parentArea: 'tama-region', displayOrder: 48, value: 'tama-north' },
+  { nameJa: '府中市', nameEn: 'Fuchu', parentArea: 'tama-north', displayOrder: 49, value: 'fuchu' },
+  { nameJa: '調布市', nameEn: 'Chofu', parentArea: 'tama-north', displayOrder: 50, value: 'chofu' },
+  { nameJa: '狛江市', nameEn: 'Komae', parentArea: 'tama-north', displayOrder: 51, value: 'komae' },
+  { nameJa: '小金井市', nameEn: 'Koganei', parentArea: 'tama-north', displayOrder: 52, value: 'koganei' },
+  { nameJa: '国分寺市', nameEn: 'Kokubunji', parentArea: 'tama-north', displayOrder: 53, value: 'kokubunji' },
+  { nameJa: '国立市', nameEn: 'Kunitachi', parentArea: 'tama-north', displayOrder: 54, value: 'kunitachi' },
+  { nameJa: '武蔵野市', nameEn: 'Musashino', parentArea: 'tama-north', displayOrder: 55, value: 'musashino' },
+  { nameJa: '三鷹市', nameEn: 'Mitaka', parentArea: 'tama-north', displayOrder: 56, value: 'mitaka' },
+  { nameJa: '西東京市', nameEn: 'Nishitokyo', parentArea: 'tama-north', displayOrder: 57, value: 'nishitokyo' },
+  { nameJa: '小平市', nameEn: 'Kodaira', parentArea: 'tama-north', displayOrder: 58, value: 'kodaira' },
+  { nameJa: '東村山市', nameEn: 'Higashimurayama', parentArea: 'tama-north', displayOrder: 59, value: 'higashimurayama' },
+  { nameJa: '東大和市', nameEn: 'Higashiyamato', parentArea: 'tama-north', displayOrder: 60, value: 'higashiyamato' },
+  { nameJa: '清瀬市', nameEn: 'Kiyose', parentArea: 'tama-north', displayOrder: 61, value: 'kiyose' },
+  { nameJa: '東久留米市', nameEn: 'Higashikurume', parentArea: 'tama-north', displayOrder: 62, value: 'higashikurume' },
+  { nameJa: '武蔵村山市', nameEn: 'Musashimurayama', parentArea: 'tama-north', displayOrder: 63, value: 'musashimurayama' }
+];
+
 // Memory storage implementation
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private favorites: Map<string, Favorite>;
+  private feedVersions: Map<number, { hash: string; modifiedAt: Date }>;
+  private savedSearches: Map<number, SavedSearch>;
   private districts: Map<number, District>;
-  private events: Map<string, Event>; // Cache for events
+  private events: Map<string, StoredEvent>;
+  private eventAliases: Map<string, string>;
   private currentUserId: number;
   private currentFavoriteId: number;
+  private currentSavedSearchId: number;
   private currentDistrictId: number;
 
   constructor() {
     this.users = new Map();
     this.favorites = new Map();
+    this.feedVersions = new Map();
+    this.savedSearches = new Map();
     this.districts = new Map();
     this.events = new Map();
+    this.eventAliases = new Map();
     this.currentUserId = 1;
     this.currentFavoriteId = 1;
+    this.currentSavedSearchId = 1;
     this.currentDistrictId = 1;
     
     // Initialize with default districts
@@ -45,21 +160,7 @@ export class MemStorage implements IStorage {
 
   // Initialize default districts
   private async initializeDistricts() {
-    const districtsData: Omit<InsertDistrict, 'id'>[] = [
-      // 23 Wards
-      { nameJa: '都心エリア (千代田区、中央区、港区)', nameEn: 'Central Area (Chiyoda, Chuo, Minato)', parentArea: '23区', displayOrder: 1, value: 'central' },
-      { nameJa: '新宿・渋谷エリア (新宿区、渋谷区)', nameEn: 'Shinjuku & Shibuya Area', parentArea: '23区', displayOrder: 2, value: 'shinjuku-shibuya' },
-      { nameJa: '池袋・上野エリア (豊島区、台東区)', nameEn: 'Ikebukuro & Ueno Area', parentArea: '23区', displayOrder: 3, value: 'ikebukuro-ueno' },
-      { nameJa: '城南エリア (品川区、目黒区、大田区)', nameEn: 'South Area (Shinagawa, Meguro, Ota)', parentArea: '23区', displayOrder: 4, value: 'south' },
-      { nameJa: '城北・城東エリア (その他23区)', nameEn: 'North & East Area (Other wards)', parentArea: '23区', displayOrder: 5, value: 'north-east' },
-      
-      // Tama Region
-      { nameJa: '多摩西部 (八王子市、立川市など)', nameEn: 'Tama West (Hachioji, Tachikawa, etc.)', parentArea: '多摩地域', displayOrder: 6, value: 'tama-west' },
-      { nameJa: '多摩南部 (町田市など)', nameEn: 'Tama South (Machida, etc.)', parentArea: '多摩地域', displayOrder: 7, value: 'tama-south' },
-      { nameJa: '多摩北部 (府中市など)', nameEn: 'Tama North (Fuchu, etc.)', parentArea: '多摩地域', displayOrder: 8, value: 'tama-north' }
-    ];
-    
-    for (const district of districtsData) {
+    for (const district of defaultDistricts) {
       await this.addDistrict(district);
     }
   }
@@ -77,21 +178,52 @@ export class MemStorage implements IStorage {
 
   async createUser(userData: InsertUser): Promise<User> {
     const id = this.currentUserId++;
-    const user: User = { ...userData, id };
+    const user: User = { ...userData, id, preferredSort: "start", feedToken: null };
     this.users.set(id, user);
     return user;
   }
 
+  async updateUserPreferences(id: number, preferences: UserPreferences): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) {
+      return undefined;
+    }
+    const updated = { ...user, ...preferences };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async getUserByFeedToken(token: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.feedToken === token
+    );
+  }
+
+  async setFeedToken(id: number, token: string | null): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) {
+      return undefined;
+    }
+    const updated = { ...user, feedToken: token };
+    this.users.set(id, updated);
+    return updated;
+  }
+
   // Favorites operations
   async getUserFavorites(userId: number): Promise<Event[]> {
     const userFavorites = Array.from(this.favorites.values()).filter(
       (fav) => fav.userId === userId
     );
     
-    // Return cached events for these favorites
-    return userFavorites
-      .map((fav) => this.events.get(fav.eventId))
-      .filter((event): event is Event => !!event);
+    // Return stored events for these favorites, resolving aliases
+    const resolved = new Map<string, Event>();
+    for (const fav of userFavorites) {
+      const event = await this.getEvent(fav.eventId);
+      if (event) {
+        resolved.set(event.id, event);
+      }
+    }
+    return Array.from(resolved.values());
   }
 
   async getFavorite(userId: number, eventId: string): Promise<Favorite | undefined> {
@@ -119,11 +251,71 @@ export class MemStorage implements IStorage {
     this.favorites.delete(key);
   }
 
+  async recordFeedVersion(userId: number, hash: string): Promise<Date> {
+    const version = this.feedVersions.get(userId);
+    if (version?.hash === hash) {
+      return version.modifiedAt;
+    }
+    const modifiedAt = new Date();
+    this.feedVersions.set(userId, { hash, modifiedAt });
+    return modifiedAt;
+  }
+
+  // Saved searches operations
+  async getSavedSearches(userId: number): Promise<SavedSearch[]> {
+    return Array.from(this.savedSearches.values()).filter(
+      (savedSearch) => savedSearch.userId === userId
+    );
+  }
+
+  async getAllSavedSearches(): Promise<SavedSearch[]> {
+    return Array.from(this.savedSearches.values());
+  }
+
+  async getSavedSearch(id: number): Promise<SavedSearch | undefined> {
+    return this.savedSearches.get(id);
+  }
+
+  async createSavedSearch(userId: number, savedSearchData: InsertSavedSearch): Promise<SavedSearch> {
+    const id = this.currentSavedSearchId++;
+    const now = new Date();
+    const savedSearch: SavedSearch = {
+      ...savedSearchData,
+      id,
+      userId,
+      seenEventIds: [],
+      newEventIds: [],
+      lastRunAt: null,
+      lastViewedAt: now,
+      createdAt: now,
+    };
+    this.savedSearches.set(id, savedSearch);
+    return savedSearch;
+  }
+
+  async updateSavedSearch(id: number, changes: SavedSearchChanges): Promise<SavedSearch | undefined> {
+    const savedSearch = this.savedSearches.get(id);
+    if (!savedSearch) {
+      return undefined;
+    }
+    const updated = { ...savedSearch, ...changes };
+    this.savedSearches.set(id, updated);
+    return updated;
+  }
+
+  async deleteSavedSearch(id: number): Promise<void> {
+    this.savedSearches.delete(id);
+  }
+
   // Districts operations
   async getAllDistricts(): Promise<District[]> {
     return Array.from(this.districts.values()).sort((a, b) => a.displayOrder - b.displayOrder);
   }
 
+  async getDistrict(id: number): Promise<District | undefined> {
+    return this.districts.get(id);
+  }
+
   async getDistrictByValue(value: string): Promise<District | undefined> {
     return Array.from(this.districts.values()).find(
       (district) => district.value === value
@@ -137,16 +329,443 @@ export class MemStorage implements IStorage {
     return district;
   }
 
-  // Cache an event
-  cacheEvent(event: Event): void {
-    this.events.set(event.id, event);
+  async updateDistrict(id: number, changes: UpdateDistrict): Promise<District | undefined> {
+    const district = this.districts.get(id);
+    if (!district) {
+      return undefined;
+    }
+    const updated = { ...district, ...changes };
+    this.districts.set(id, updated);
+    return updated;
+  }
+
+  async deleteDistrict(id: number): Promise<void> {
+    this.districts.delete(id);
+  }
+
+  async reorderDistricts(ids: number[]): Promise<void> {
+    ids.forEach((id, index) => {
+      const district = this.districts.get(id);
+      if (district) {
+        this.districts.set(id, { ...district, displayOrder: index + 1 });
+      }
+    });
+  }
+
+  // Events operations
+  async getEvent(id: string): Promise<Event | undefined> {
+    const event = this.events.get(id) ?? this.events.get(this.eventAliases.get(id) ?? "");
+    return event && toEvent(event);
+  }
+
+  async findEvents(params: SearchParams): Promise<Event[]> {
+    const scope = params.district?.length ? districtScope(await this.getAllDistricts(), params.district) : null;
+    return Array.from(this.events.values())
+      .filter((event) =>
+        event.startDate <= params.dateTo &&
+        (event.endDate || event.startDate) >= params.dateFrom &&
+        (!scope || scope.includes(event.district))
+      )
+      .sort((a, b) => a.startDate.localeCompare(b.startDate))
+      .map(toEvent)
+      .filter((event) => matchesFilters(event, params));
+  }
+
+  async getEventFetchTimes(ids: string[]): Promise<Map<string, Date>> {
+    const times = new Map<string, Date>();
+    for (const id of ids) {
+      const event = this.events.get(id);
+      if (event) {
+        times.set(id, event.fetchedAt);
+      }
+    }
+    return times;
+  }
+
+  async upsertEvents(eventsData: Event[], source: string): Promise<void> {
+    const now = new Date();
+    for (const event of eventsData) {
+      const existing = this.events.get(event.id);
+      this.events.set(event.id, {
+        ...(existing ? mergeEvents(event, toEvent(existing)) : event),
+        source,
+        fetchedAt: existing?.fetchedAt ?? now,
+        lastSeenAt: now,
+      });
+    }
+  }
+
+  async addEventAliases(aliases: EventAlias[]): Promise<void> {
+    for (const { alias, eventId } of aliases) {
+      if (!this.eventAliases.has(alias)) {
+        this.eventAliases.set(alias, eventId);
+      }
+    }
+  }
+}
+
+// Postgres storage implementation
+export class DrizzleStorage implements IStorage {
+  private ready: Promise<void> | null = null;
+
+  constructor(private db: Database) {
+    // Seed default districts; reads wait for this to finish
+    this.seeded().catch(() => {});
+  }
+
+  // The district seed, started again on the next read when it fails, e.g.
+  // while the database is still starting or the tables are not pushed yet
+  private seeded(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.initializeDistricts().catch((error) => {
+        console.error("Failed to seed districts:", error);
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  // Seed default districts into an empty table. Once seeded, admins manage the
+  // districts, so deleted defaults are not brought back. A table still holding
+  // the old flat seed (areas under region labels) is moved into the hierarchy.
+  private async initializeDistricts() {
+    const existing = await this.db.select({ parentArea: districts.parentArea }).from(districts);
+    const legacy = existing.some((district) => district.parentArea === "23区" || district.parentArea === "多摩地域");
+    if (existing.length > 0 && !legacy) {
+      return;
+    }
+
+    await this.db
+      .insert(districts)
+      .values(defaultDistricts)
+      .onConflictDoUpdate({
+        target: districts.value,
+        set: {
+          nameJa: sql`excluded.name_ja`,
+          nameEn: sql`excluded.name_en`,
+          parentArea: sql`excluded.parent_area`,
+          displayOrder: sql`excluded.display_order`,
+        },
+        setWhere: inArray(districts.parentArea, ["23区", "多摩地域"]),
+      });
+  }
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(userData: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(userData).returning();
+    return user;
+  }
+
+  async updateUserPreferences(id: number, preferences: UserPreferences): Promise<User | undefined> {
+    if (Object.keys(preferences).length === 0) {
+      return this.getUser(id);
+    }
+    const [user] = await this.db.update(users).set(preferences).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async getUserByFeedToken(token: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.feedToken, token));
+    return user;
+  }
+
+  async setFeedToken(id: number, token: string | null): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set({ feedToken: token }).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  // Favorites operations
+  async getUserFavorites(userId: number): Promise<Event[]> {
+    // Favorites may reference an alias of the stored event
+    const rows = await this.db
+      .select({ event: events })
+      .from(favorites)
+      .leftJoin(eventAliases, eq(eventAliases.alias, favorites.eventId))
+      .innerJoin(events, eq(events.id, sql`coalesce(${eventAliases.eventId}, ${favorites.eventId})`))
+      .where(eq(favorites.userId, userId))
+      .orderBy(asc(favorites.createdAt));
+
+    const resolved = new Map(rows.map((row) => [row.event.id, toEvent(row.event)]));
+    return Array.from(resolved.values());
+  }
+
+  async getFavorite(userId: number, eventId: string): Promise<Favorite | undefined> {
+    const [favorite] = await this.db
+      .select()
+      .from(favorites)
+      .where(and(eq(favorites.userId, userId), eq(favorites.eventId, eventId)));
+    return favorite;
+  }
+
+  async addFavorite(favoriteData: InsertFavorite): Promise<Favorite> {
+    const [favorite] = await this.db.insert(favorites).values(favoriteData).returning();
+    return favorite;
+  }
+
+  async removeFavorite(userId: number, eventId: string): Promise<void> {
+    await this.db
+      .delete(favorites)
+      .where(and(eq(favorites.userId, userId), eq(favorites.eventId, eventId)));
+  }
+
+  async recordFeedVersion(userId: number, hash: string): Promise<Date> {
+    // The timestamp only moves when the hash changes
+    const [version] = await this.db
+      .insert(feedVersions)
+      .values({ userId, hash })
+      .onConflictDoUpdate({
+        target: feedVersions.userId,
+        set: {
+          hash: sql`excluded.hash`,
+          modifiedAt: sql`case when ${feedVersions.hash} = excluded.hash then ${feedVersions.modifiedAt} else excluded.modified_at end`,
+        },
+      })
+      .returning({ modifiedAt: feedVersions.modifiedAt });
+    return version.modifiedAt;
+  }
+
+  // Saved searches operations
+  async getSavedSearches(userId: number): Promise<SavedSearch[]> {
+    return this.db
+      .select()
+      .from(savedSearches)
+      .where(eq(savedSearches.userId, userId))
+      .orderBy(asc(savedSearches.createdAt));
+  }
+
+  async getAllSavedSearches(): Promise<SavedSearch[]> {
+    return this.db.select().from(savedSearches).orderBy(asc(savedSearches.id));
+  }
+
+  async getSavedSearch(id: number): Promise<SavedSearch | undefined> {
+    const [savedSearch] = await this.db.select().from(savedSearches).where(eq(savedSearches.id, id));
+    return savedSearch;
+  }
+
+  async createSavedSearch(userId: number, savedSearchData: InsertSavedSearch): Promise<SavedSearch> {
+    const [savedSearch] = await this.db
+      .insert(savedSearches)
+      .values({ ...savedSearchData, userId })
+      .returning();
+    return savedSearch;
+  }
+
+  async updateSavedSearch(id: number, changes: SavedSearchChanges): Promise<SavedSearch | undefined> {
+    if (Object.keys(changes).length === 0) {
+      return this.getSavedSearch(id);
+    }
+    const [savedSearch] = await this.db
+      .update(savedSearches)
+      .set(changes)
+      .where(eq(savedSearches.id, id))
+      .returning();
+    return savedSearch;
+  }
+
+  async deleteSavedSearch(id: number): Promise<void> {
+    await this.db.delete(savedSearches).where(eq(savedSearches.id, id));
+  }
+
+  // Districts operations
+  async getAllDistricts(): Promise<District[]> {
+    await this.seeded();
+    return this.db.select().from(districts).orderBy(asc(districts.displayOrder));
+  }
+
+  async getDistrict(id: number): Promise<District | undefined> {
+    await this.seeded();
+    const [district] = await this.db.select().from(districts).where(eq(districts.id, id));
+    return district;
+  }
+
+  async getDistrictByValue(value: string): Promise<District | undefined> {
+    await this.seeded();
+    const [district] = await this.db.select().from(districts).where(eq(districts.value, value));
+    return district;
+  }
+
+  async addDistrict(districtData: InsertDistrict): Promise<District> {
+    const [district] = await this.db.insert(districts).values(districtData).returning();
+    return district;
+  }
+
+  async updateDistrict(id: number, changes: UpdateDistrict): Promise<District | undefined> {
+    if (Object.keys(changes).length === 0) {
+      return this.getDistrict(id);
+    }
+    const [district] = await this.db
+      .update(districts)
+      .set(changes)
+      .where(eq(districts.id, id))
+      .returning();
+    return district;
+  }
+
+  async deleteDistrict(id: number): Promise<void> {
+    await this.db.delete(districts).where(eq(districts.id, id));
+  }
+
+  async reorderDistricts(ids: number[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+    // One statement, so readers never see a half-applied order
+    await this.db
+      .update(districts)
+      .set({
+        displayOrder: sql`case ${sql.join(
+          ids.map((id, index) => sql`when ${districts.id} = ${id} then ${index + 1}`),
+          sql` `,
+        )} else ${districts.displayOrder} end`,
+      })
+      .where(inArray(districts.id, ids));
+  }
+
+  // Events operations
+  async getEvent(id: string): Promise<Event | undefined> {
+    const [event] = await this.db.select().from(events).where(eq(events.id, id));
+    if (event) {
+      return toEvent(event);
+    }
+
+    const [aliased] = await this.db
+      .select({ event: events })
+      .from(eventAliases)
+      .innerJoin(events, eq(eventAliases.eventId, events.id))
+      .where(eq(eventAliases.alias, id));
+    return aliased && toEvent(aliased.event);
+  }
+
+  async findEvents(params: SearchParams): Promise<Event[]> {
+    // A district includes its wards and cities
+    const scope = params.district?.length ? districtScope(await this.getAllDistricts(), params.district) : null;
+    const rows = await this.db
+      .select()
+      .from(events)
+      .where(and(
+        lte(events.startDate, params.dateTo),
+        gte(sql`coalesce(${events.endDate}, ${events.startDate})`, params.dateFrom),
+        scope ? inArray(events.district, scope) : undefined,
+        params.category?.length ? inArray(events.category, params.category) : undefined,
+        params.free ? eq(events.isFree, true) : undefined,
+        params.maxPrice !== undefined
+          ? or(
+              eq(events.isFree, true),
+              and(eq(events.currency, "JPY"), lte(events.priceMin, params.maxPrice)),
+            )
+          : undefined,
+      ))
+      .orderBy(asc(events.startDate));
+
+    // Keyword matching needs Japanese-aware normalisation and the evening and
+    // weekend filters look inside sessions, so they run in JS
+    return rows.map(toEvent).filter((event) => matchesFilters(event, params));
+  }
+
+  async getEventFetchTimes(ids: string[]): Promise<Map<string, Date>> {
+    if (ids.length === 0) {
+      return new Map();
+    }
+    const rows = await this.db
+      .select({ id: events.id, fetchedAt: events.fetchedAt })
+      .from(events)
+      .where(inArray(events.id, ids));
+    return new Map(rows.map((row) => [row.id, row.fetchedAt]));
+  }
+
+  async upsertEvents(eventsData: Event[], source: string): Promise<void> {
+    if (eventsData.length === 0) {
+      return;
+    }
+
+    // Postgres rejects an upsert that touches the same row twice
+    const uniqueEvents = Array.from(new Map(eventsData.map((event) => [event.id, event])).values());
+
+    // Merge into the stored event on conflict: new non-empty values win (a new
+    // "other" category, empty tag or session list, or unknown time, admission
+    // or coordinates keeps the stored one), the widest date
+    // range is kept and the original fetchedAt is preserved
+    const latest = (column: string) =>
+      sql.raw(`coalesce(nullif(excluded.${column}, ''), "events"."${column}")`);
+    // Admission fields are taken together from whichever record knows the admission
+    const admission = (column: string) =>
+      sql.raw(`case when excluded.is_free is not null or excluded.price_min is not null or excluded.price_max is not null then excluded.${column} else "events"."${column}" end`);
+
+    await this.db
+      .insert(events)
+      .values(uniqueEvents.map((event) => ({ ...event, source })))
+      .onConflictDoUpdate({
+        target: events.id,
+        set: {
+          titleJa: latest("title_ja"),
+          titleEn: latest("title_en"),
+          descriptionJa: latest("description_ja"),
+          descriptionEn: latest("description_en"),
+          startDate: sql`excluded.start_date`,
+          endDate: sql`greatest(excluded.end_date, ${events.endDate})`,
+          startTime: sql`coalesce(excluded.start_time, ${events.startTime})`,
+          endTime: sql`coalesce(excluded.end_time, ${events.endTime})`,
+          sessions: sql`case when jsonb_array_length(excluded.sessions) = 0 then ${events.sessions} else excluded.sessions end`,
+          location: latest("location"),
+          district: latest("district"),
+          lat: sql`coalesce(excluded.lat, ${events.lat})`,
+          lng: sql`coalesce(excluded.lng, ${events.lng})`,
+          imageUrl: latest("image_url"),
+          category: sql`case when excluded.category = 'other' then ${events.category} else excluded.category end`,
+          tags: sql`case when cardinality(excluded.tags) = 0 then ${events.tags} else excluded.tags end`,
+          isFree: admission("is_free"),
+          priceMin: admission("price_min"),
+          priceMax: admission("price_max"),
+          currency: admission("currency"),
+          ticketUrl: latest("ticket_url"),
+          bookingRequired: sql`coalesce(excluded.booking_required, ${events.bookingRequired})`,
+          synthetic: sql`excluded.synthetic`,
+          source: sql`excluded.source`,
+          lastSeenAt: sql`now()`,
+        },
+      });
+  }
+
+  async addEventAliases(aliases: EventAlias[]): Promise<void> {
+    if (aliases.length === 0) {
+      return;
+    }
+
+    await this.db
+      .insert(eventAliases)
+      .values(aliases)
+      .onConflictDoNothing({ target: eventAliases.alias });
+  }
+}
+
+// Pick the storage backend: STORAGE_DRIVER=memory|postgres, defaulting to
+// postgres whenever DATABASE_URL is set
+export function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  if (driver === "postgres") {
+    if (!process.env.DATABASE_URL) {
+      throw new Error("STORAGE_DRIVER=postgres requires DATABASE_URL to be set");
+    }
+    return new DrizzleStorage(createDb(process.env.DATABASE_URL));
   }
 
-  // Cache multiple events
-  cacheEvents(events: Event[]): void {
-    events.forEach(event => this.cacheEvent(event));
+  if (driver !== "memory") {
+    throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
   }
+  return new MemStorage();
 }
 
 // Export a singleton instance
-export const storage = new MemStorage();
+export const storage = createStorage();
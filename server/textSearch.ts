@@ -0,0 +1,105 @@
+import { Event, EventCategory, SearchParams } from "@shared/schema";
+
+// Fold text for keyword matching: NFKC unifies full- and half-width forms
+// (ｼﾞｬｽﾞ → ジャズ, ＪＡＺＺ → JAZZ), katakana is mapped to hiragana so
+// ジャズ matches じゃず, and case and whitespace runs are normalised
+export function normalizeSearchText(value: string): string {
+  return value
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[ァ-ヶ]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0x60))
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// True when every whitespace-separated term of q appears in the event's
+// Japanese or English title or description
+export function matchesKeyword(event: Event, q: string | undefined): boolean {
+  const terms = normalizeSearchText(q ?? "").split(" ").filter(Boolean);
+  if (terms.length === 0) {
+    return true;
+  }
+
+  const haystack = normalizeSearchText(
+    [event.titleJa, event.titleEn, event.descriptionJa, event.descriptionEn].join(" ")
+  );
+  return terms.every((term) => haystack.includes(term));
+}
+
+// True when no categories are requested or the event is in one of them
+export function matchesCategory(event: Event, categories: EventCategory[] | undefined): boolean {
+  return !categories?.length || categories.includes(event.category);
+}
+
+// True when the event passes the free-only and maximum price filters. Events
+// with unknown admission never match, and maxPrice is in yen, so events
+// priced in another currency only match when they are free.
+export function matchesPrice(event: Event, params: Pick<SearchParams, "free" | "maxPrice">): boolean {
+  if (params.free && event.isFree !== true) {
+    return false;
+  }
+  if (params.maxPrice !== undefined && event.isFree !== true) {
+    return event.currency === "JPY" && event.priceMin !== null && event.priceMin <= params.maxPrice;
+  }
+  return true;
+}
+
+// Earliest start time, Tokyo time, that counts as an evening event
+const EVENING_START = "17:00";
+
+function isWeekend(date: string): boolean {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return day === 0 || day === 6;
+}
+
+// True when a Saturday or Sunday falls within the inclusive date range
+function includesWeekend(from: string, to: string): boolean {
+  const start = Date.parse(`${from}T00:00:00Z`);
+  const end = Date.parse(`${to}T00:00:00Z`);
+  // Any seven consecutive days include a weekend, so check a week at most
+  for (let day = start; day <= end && day < start + 7 * 86400000; day += 86400000) {
+    if (isWeekend(new Date(day).toISOString().split("T")[0])) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// True when the event passes the evening and weekend filters within the
+// searched date range. Multi-session events need one session that passes
+// both; events without a known start time never count as evening events.
+export function matchesSchedule(
+  event: Event,
+  params: Pick<SearchParams, "dateFrom" | "dateTo" | "evening" | "weekend">,
+): boolean {
+  if (!params.evening && !params.weekend) {
+    return true;
+  }
+
+  if (event.sessions.length > 0) {
+    return event.sessions.some((session) =>
+      session.date >= params.dateFrom && session.date <= params.dateTo &&
+      (!params.evening || (session.startTime !== null && session.startTime >= EVENING_START)) &&
+      (!params.weekend || isWeekend(session.date))
+    );
+  }
+
+  if (params.evening && (event.startTime === null || event.startTime < EVENING_START)) {
+    return false;
+  }
+  if (params.weekend) {
+    const from = event.startDate > params.dateFrom ? event.startDate : params.dateFrom;
+    const endDate = event.endDate || event.startDate;
+    return includesWeekend(from, endDate < params.dateTo ? endDate : params.dateTo);
+  }
+  return true;
+}
+
+// True when the event passes every content filter of a search (keyword,
+// categories, price and schedule; dates and district are checked by the caller)
+export function matchesFilters(event: Event, params: SearchParams): boolean {
+  return matchesKeyword(event, params.q) &&
+    matchesCategory(event, params.category) &&
+    matchesPrice(event, params) &&
+    matchesSchedule(event, params);
+}
@@ -1,12 +1,20 @@
-import { pgTable, text, serial, integer, timestamp, varchar, primaryKey } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, varchar, unique, boolean, jsonb, doublePrecision } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Orders /api/events can return results in
+export const eventSorts = ["start", "end", "title", "district", "recent"] as const;
+export type EventSort = typeof eventSorts[number];
+
 // Users table
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: varchar("username", { length: 255 }).notNull().unique(),
   password: text("password").notNull(),
+  preferredSort: varchar("preferred_sort", { length: 16 }).$type<EventSort>().notNull().default("start"),
+  // Secret in the favorites calendar feed URL; null when the feed is off
+  feedToken: varchar("feed_token", { length: 64 }).unique(),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -14,6 +22,10 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
+export const updateUserPreferencesSchema = z.object({
+  preferredSort: z.enum(eventSorts),
+}).partial();
+
 // Favorite events
 export const favorites = pgTable("favorites", {
   id: serial("id").primaryKey(),
@@ -22,15 +34,39 @@ export const favorites = pgTable("favorites", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => {
   return {
-    userEventUnique: primaryKey({ columns: [table.userId, table.eventId] }),
+    userEventUnique: unique().on(table.userId, table.eventId),
   };
 });
 
+// When each user's favorites calendar feed last changed. Removing a favorite
+// leaves no timestamp behind, so the feed records a hash of its content instead.
+export const feedVersions = pgTable("feed_versions", {
+  userId: integer("user_id").primaryKey().references(() => users.id),
+  hash: varchar("hash", { length: 40 }).notNull(),
+  modifiedAt: timestamp("modified_at").notNull().defaultNow(),
+});
+
 export const insertFavoriteSchema = createInsertSchema(favorites).pick({
   userId: true,
   eventId: true,
 });
 
+// Searches users saved to re-run later. A background job re-runs them and
+// records events that were not in any earlier result.
+export const savedSearches = pgTable("saved_searches", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  name: varchar("name", { length: 100 }).notNull(),
+  params: jsonb("params").$type<SearchParams>().notNull(),
+  // Keep the range's length but move it to start today on every run
+  rolling: boolean("rolling").notNull().default(true),
+  seenEventIds: text("seen_event_ids").array().notNull().default(sql`'{}'::text[]`),
+  newEventIds: text("new_event_ids").array().notNull().default(sql`'{}'::text[]`), // since the user last opened it
+  lastRunAt: timestamp("last_run_at"),
+  lastViewedAt: timestamp("last_viewed_at").notNull().defaultNow(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 // Districts
 export const districts = pgTable("districts", {
   id: serial("id").primaryKey(),
@@ -41,7 +77,14 @@ export const districts = pgTable("districts", {
   value: varchar("value", { length: 255 }).notNull().unique(),
 });
 
-export const insertDistrictSchema = createInsertSchema(districts).pick({
+export const insertDistrictSchema = createInsertSchema(districts, {
+  nameJa: (schema) => schema.trim().min(1),
+  nameEn: (schema) => schema.trim().min(1),
+  parentArea: (schema) => schema.trim(), // empty for a region, otherwise the parent's value
+  displayOrder: (schema) => schema.nonnegative(),
+  // Used in URLs and stored on events, so kept to a simple slug
+  value: (schema) => schema.regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "value must be lowercase letters, digits and hyphens"),
+}).pick({
   nameJa: true,
   nameEn: true,
   parentArea: true,
@@ -49,6 +92,62 @@ export const insertDistrictSchema = createInsertSchema(districts).pick({
   value: true,
 });
 
+// Events and saved searches refer to districts by value, so it cannot change
+export const updateDistrictSchema = insertDistrictSchema.omit({ value: true }).partial();
+
+// Every district's ID in the new display order
+export const reorderDistrictsSchema = z.object({
+  ids: z.array(z.number().int()).min(1),
+});
+
+// Events persisted from the event provider
+export const events = pgTable("events", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  titleJa: text("title_ja").notNull(),
+  titleEn: text("title_en").notNull(),
+  descriptionJa: text("description_ja").notNull(),
+  descriptionEn: text("description_en").notNull(),
+  startDate: text("start_date").notNull(),
+  endDate: text("end_date"),
+  startTime: varchar("start_time", { length: 5 }),
+  endTime: varchar("end_time", { length: 5 }),
+  sessions: jsonb("sessions").$type<EventSession[]>().notNull().default([]),
+  location: text("location").notNull(),
+  district: varchar("district", { length: 255 }).notNull(),
+  lat: doublePrecision("lat"),
+  lng: doublePrecision("lng"),
+  imageUrl: text("image_url").notNull(),
+  category: varchar("category", { length: 32 }).$type<EventCategory>().notNull().default("other"),
+  tags: text("tags").array().notNull().default(sql`'{}'::text[]`),
+  isFree: boolean("is_free"),
+  priceMin: integer("price_min"),
+  priceMax: integer("price_max"),
+  currency: varchar("currency", { length: 3 }).notNull().default("JPY"),
+  ticketUrl: text("ticket_url").notNull().default(""),
+  bookingRequired: boolean("booking_required"),
+  synthetic: boolean("synthetic").notNull().default(false),
+  source: varchar("source", { length: 64 }).notNull(),
+  fetchedAt: timestamp("fetched_at").notNull().defaultNow(), // first time the event was fetched
+  lastSeenAt: timestamp("last_seen_at").notNull().defaultNow(), // most recent time a search returned it
+});
+
+// Provider-assigned or legacy event IDs that resolve to a canonical event
+export const eventAliases = pgTable("event_aliases", {
+  alias: varchar("alias", { length: 255 }).primaryKey(),
+  eventId: varchar("event_id", { length: 255 }).notNull().references(() => events.id),
+});
+
+// One showing of an event that runs several times. Times are HH:MM in Asia/Tokyo.
+export interface EventSession {
+  date: string;
+  startTime: string | null;
+  endTime: string | null;
+}
+
+// Event categories, in display order
+export const eventCategories = ["music", "art", "food", "matsuri", "sports", "other"] as const;
+export type EventCategory = typeof eventCategories[number];
+
 // Event and SearchParams interfaces for API communication
 export interface Event {
   id: string;
@@ -58,23 +157,197 @@ export interface Event {
   descriptionEn: string;
   startDate: string;
   endDate: string | null;
+  // Local Asia/Tokyo times as HH:MM; null for all-day events or when unknown
+  startTime: string | null;
+  endTime: string | null;
+  sessions: EventSession[]; // individual showings, empty for a single continuous run
   location: string;
   district: string;
+  // Venue coordinates (WGS 84); null when the provider did not give them
+  lat: number | null;
+  lng: number | null;
   imageUrl: string;
+  category: EventCategory;
+  tags: string[];
+  // Admission; null means the provider did not say
+  isFree: boolean | null;
+  priceMin: number | null; // whole units of currency
+  priceMax: number | null;
+  currency: string; // ISO 4217 code
+  ticketUrl: string;
+  bookingRequired: boolean | null;
+  synthetic: boolean; // demo or fixture data rather than a real listing
+}
+
+// Runtime schema for events received from providers
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date");
+const localTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected an HH:MM time");
+
+export const eventSessionSchema = z.object({
+  date: isoDate,
+  startTime: localTime.nullable(),
+  endTime: localTime.nullable(),
+}) satisfies z.ZodType<EventSession>;
+
+export const eventSchema = z.object({
+  id: z.string().min(1),
+  titleJa: z.string().min(1),
+  titleEn: z.string().min(1),
+  descriptionJa: z.string(),
+  descriptionEn: z.string(),
+  startDate: isoDate,
+  endDate: isoDate.nullable(),
+  startTime: localTime.nullable(),
+  endTime: localTime.nullable(),
+  sessions: z.array(eventSessionSchema),
+  location: z.string(),
+  district: z.string(),
+  lat: z.number().min(-90).max(90).nullable(),
+  lng: z.number().min(-180).max(180).nullable(),
+  imageUrl: z.string(),
+  category: z.enum(eventCategories),
+  tags: z.array(z.string()),
+  isFree: z.boolean().nullable(),
+  priceMin: z.number().int().nonnegative().nullable(),
+  priceMax: z.number().int().nonnegative().nullable(),
+  currency: z.string().regex(/^[A-Z]{3}$/, "Expected an ISO 4217 currency code"),
+  ticketUrl: z.string(),
+  bookingRequired: z.boolean().nullable(),
+  synthetic: z.boolean(),
+}).refine((event) => !event.endDate || event.endDate >= event.startDate, {
+  message: "endDate must not be before startDate",
+  path: ["endDate"],
+}).refine((event) => event.priceMin === null || event.priceMax === null || event.priceMax >= event.priceMin, {
+  message: "priceMax must not be below priceMin",
+  path: ["priceMax"],
+}) satisfies z.ZodType<Event>;
+
+// Per-request outcome of validating provider events
+export interface EventValidationStats {
+  accepted: number; // valid as returned
+  repaired: number; // fixed up and kept
+  rejected: number; // dropped
+}
+
+export interface EventSearchResponse {
+  events: Event[];
+  meta: {
+    validation: EventValidationStats;
+    partial: boolean; // some provider sub-queries failed
+    warnings: string[];
+  };
+}
+
+// One page of /api/events results; meta describes the whole search
+export interface EventSearchPage extends EventSearchResponse {
+  total: number; // events matching the search across all pages
+  nextCursor: string | null; // pass as cursor to get the next page, null on the last page
+}
+
+// Body of an /api/events response when the event(s) cannot be returned
+export interface EventErrorResponse {
+  message: string;
+  reason: "not_found" | "unavailable" | "rate_limited";
 }
 
 export interface SearchParams {
   dateFrom: string;
   dateTo: string;
-  district?: string;
+  district?: string[]; // any of these districts, each including its wards and cities
+  q?: string; // free-text keyword matched against titles and descriptions
+  category?: EventCategory[]; // any of these categories
+  free?: boolean; // only events known to be free
+  maxPrice?: number; // free events or those whose cheapest ticket costs at most this many yen
+  evening?: boolean; // only events starting at or after 17:00 Tokyo time
+  weekend?: boolean; // only events taking place on a Saturday or Sunday in the range
+}
+
+// Longest date range one search may cover. Each week of it is a separate
+// provider call per district.
+export const MAX_SEARCH_DAYS = 31;
+
+// Days in an inclusive YYYY-MM-DD range
+export function searchSpanDays(dateFrom: string, dateTo: string): number {
+  return Math.round((Date.parse(`${dateTo}T00:00:00Z`) - Date.parse(`${dateFrom}T00:00:00Z`)) / (24 * 60 * 60 * 1000)) + 1;
+}
+
+// SearchParams sent as JSON, e.g. in a saved search
+export const searchParamsSchema = z.object({
+  dateFrom: isoDate,
+  dateTo: isoDate,
+  district: z.array(z.string().min(1)).optional(),
+  q: z.string().trim().max(100).optional(),
+  category: z.array(z.enum(eventCategories)).optional(),
+  free: z.boolean().optional(),
+  maxPrice: z.number().int().nonnegative().optional(),
+  evening: z.boolean().optional(),
+  weekend: z.boolean().optional(),
+}).refine((params) => params.dateFrom <= params.dateTo, {
+  message: "dateFrom must be before or equal to dateTo",
+  path: ["dateTo"],
+}).refine((params) => searchSpanDays(params.dateFrom, params.dateTo) <= MAX_SEARCH_DAYS, {
+  message: `The date range must be at most ${MAX_SEARCH_DAYS} days`,
+  path: ["dateTo"],
+});
+
+export const insertSavedSearchSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  params: searchParamsSchema,
+  rolling: z.boolean().default(true),
+});
+
+export const updateSavedSearchSchema = insertSavedSearchSchema.partial();
+
+// A saved search as returned by /api/saved-searches
+export interface SavedSearchResponse {
+  id: number;
+  name: string;
+  params: SearchParams;
+  rolling: boolean;
+  currentParams: SearchParams; // what the next run searches; rolling searches start today
+  newEventIds: string[];
+  lastRunAt: string | null;
+  lastViewedAt: string;
+  createdAt: string;
+}
+
+// District boundaries served by /api/districts/geo (GeoJSON, [lng, lat] order)
+export type GeoPosition = [number, number];
+
+export interface DistrictGeoFeature {
+  type: "Feature";
+  properties: {
+    value: string; // District.value
+    centroid: GeoPosition; // where the district's events are clustered on the map
+  };
+  geometry:
+    | { type: "Polygon"; coordinates: GeoPosition[][] }
+    | { type: "MultiPolygon"; coordinates: GeoPosition[][][] };
+}
+
+export interface DistrictGeoCollection {
+  type: "FeatureCollection";
+  features: DistrictGeoFeature[];
 }
 
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type UserPreferences = z.infer<typeof updateUserPreferencesSchema>;
+// A user as returned by the /api/auth routes
+export type UserResponse = Omit<User, "password"> & { isAdmin: boolean };
 
 export type InsertFavorite = z.infer<typeof insertFavoriteSchema>;
 export type Favorite = typeof favorites.$inferSelect;
 
+export type InsertSavedSearch = z.infer<typeof insertSavedSearchSchema>;
+export type UpdateSavedSearch = z.infer<typeof updateSavedSearchSchema>;
+export type SavedSearch = typeof savedSearches.$inferSelect;
+
 export type InsertDistrict = z.infer<typeof insertDistrictSchema>;
+export type UpdateDistrict = z.infer<typeof updateDistrictSchema>;
 export type District = typeof districts.$inferSelect;
+
+export type StoredEvent = typeof events.$inferSelect;
+
+export type EventAlias = typeof eventAliases.$inferSelect;